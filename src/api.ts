@@ -0,0 +1,26 @@
+/**
+ * Public Node.js API of svg-video
+ */
+export { convert } from './lib/converter.js';
+export type {
+  ConvertOptions,
+  ConvertResult,
+  ConvertProgress,
+  ConvertPhase,
+} from './lib/converter.js';
+export { analyzeSVG, analyzeSVGContent } from './lib/svg-analyzer.js';
+export type { SVGAnalysis, SVGDimensions } from './lib/svg-analyzer.js';
+export type { CaptureMode } from './lib/recorder.js';
+export type { RenderMode } from './lib/template-generator.js';
+export type { OutputFormat } from './lib/video-processor.js';
+export type { EncoderOptions, EncoderPreset } from './lib/encoder.js';
+export type { FitMode, Anchor } from './lib/fit.js';
+export type { OutputPresetName } from './lib/presets.js';
+export type { AudioOptions } from './lib/audio.js';
+export type { ConvertEvent } from './lib/events.js';
+export {
+  version,
+  ValidationError,
+  ProcessingError,
+  SystemError,
+} from './lib/utils.js';
@@ -1,217 +1,600 @@
 import lily from '@jcubic/lily';
 import { readFile } from 'fs/promises';
-import { resolve } from 'path';
+import { basename, resolve } from 'path';
+import {
+  convert,
+  ConvertOptions,
+  ConvertPhase,
+  ConvertProgress,
+  ConvertResult,
+} from './lib/converter.js';
+import { BatchEntry, findJobs, formatSummary, runBatch } from './lib/batch.js';
+import { CaptureMode } from './lib/recorder.js';
+import { RenderMode } from './lib/template-generator.js';
+import { OutputFormat } from './lib/video-processor.js';
+import { AudioOptions } from './lib/audio.js';
+import { Anchor, FitMode } from './lib/fit.js';
+import { EncoderPreset } from './lib/encoder.js';
+import { OutputPresetName } from './lib/presets.js';
+import { createEventWriter, PROGRESS_FORMATS } from './lib/events.js';
 import { analyzeSVG } from './lib/svg-analyzer.js';
-import { generateHTMLFile } from './lib/template-generator.js';
-import { recordAnimation } from './lib/recorder.js';
-import { processVideo, checkFFmpeg } from './lib/video-processor.js';
+import { formatInspection } from './lib/inspect.js';
+import { createRenderServer } from './lib/server.js';
+import { watchConversion } from './lib/watch.js';
+import { defaultCacheDirectory, pruneCache } from './lib/cache.js';
 import {
   version,
   fileExists,
-  getTempFilePath,
-  deleteFile,
+  errorCategory,
+  parseSeconds,
   validatePositiveNumber,
-  ValidationError,
-  ProcessingError,
   SystemError,
+  ValidationError,
 } from './lib/utils.js';
 
 interface CliOptions {
   width?: number;
   height?: number;
+  fit?: string;
+  anchor?: string;
   duration?: number;
+  start?: number | string;
+  end?: number | string;
+  'max-duration'?: number;
+  loops?: number;
+  length?: number | string;
+  crossfade?: number;
   fps?: number;
+  scale?: number;
   style?: string;
+  capture?: string;
+  render?: string;
+  format?: string;
+  dither?: string;
+  codec?: string;
+  crf?: number;
+  speed?: string;
+  bitrate?: number | string;
+  'two-pass'?: boolean;
+  'pix-fmt'?: string;
+  tune?: string;
+  preset?: string;
+  'quality-preset'?: string;
+  transparent?: boolean;
+  background?: string;
+  'pad-color'?: string;
+  audio?: string;
+  'inline-resources'?: boolean;
+  fonts?: string;
+  'audio-start'?: number | string;
+  'audio-fade-in'?: number;
+  'audio-fade-out'?: number;
+  'audio-extend'?: boolean;
+  volume?: number | string;
+  concurrency?: number;
+  port?: number;
+  host?: string;
+  'max-size'?: number;
+  'job-ttl'?: number;
+  watch?: boolean;
+  cache?: boolean;
+  'no-cache'?: boolean;
+  'cache-dir'?: string;
+  'max-age'?: number;
+  'keep-temp'?: boolean;
+  json?: boolean;
+  progress?: string;
+  version?: boolean;
   w?: number;
   h?: number;
   d?: number;
   f?: number;
   s?: string;
+  c?: string;
+  t?: boolean;
+  j?: number;
+  v?: boolean;
 }
 
-async function main() {
-  try {
-    // Parse CLI arguments
-    const options = lily(process.argv.slice(2), {
-      parse_args: true,
-    }) as CliOptions & { _: string[] };
-    if (options.version) {
-      console.error(version());
-      process.exit(0);
-    } else if (options._.length < 2) {
-      console.error('Usage: svg-video <input.svg> <output.mp4> [options]');
-      console.error('\nOptions:');
-      console.error('  -w, --width <pixels>     Maximum width (default: from SVG)');
-      console.error('  -h, --height <pixels>    Maximum height (default: from SVG)');
-      console.error('  -d, --duration <seconds> Override animation duration');
-      console.error('  -f, --fps <number>       Frame rate (default: 30)');
-      console.error('  -s, --style <file>       Path to a CSS file with extra styles');
-      console.error("  -v, --version            Show version number");
-      console.error('\nExamples:');
-      console.error('  svg-video input.svg output.mp4');
-      console.error('  svg-video input.svg output.mp4 --width 1920 --height 1080');
-      console.error('  svg-video input.svg output.mp4 -d 10');
-      process.exit(0);
-    }
+type ParsedOptions = CliOptions & { _: string[] };
 
-    // Extract positional arguments (input and output)
-    const inputPath = resolve(options._[0]);
-    const outputPath = resolve(options._[1]);
-
-    // Normalize options (handle both long and short forms)
-    const width = options.width ?? options.w;
-    const height = options.height ?? options.h;
-    const duration = options.duration ?? options.d;
-    const fps = options.fps ?? options.f ?? 30;
-    const stylePath = options.style ?? options.s;
-
-    // Validate input file exists
-    if (!(await fileExists(inputPath))) {
-      throw new ValidationError(`Input file not found: ${inputPath}`);
-    }
+const PROGRESS_LABELS: Partial<Record<ConvertPhase, string>> = {
+  render: 'Recording progress',
+  encode: 'Conversion progress',
+};
 
-    // Load custom CSS file (if provided)
-    let customStyle: string | undefined;
-    if (stylePath) {
-      const resolvedStylePath = resolve(stylePath);
-      if (!(await fileExists(resolvedStylePath))) {
-        throw new ValidationError(`Style file not found: ${resolvedStylePath}`);
-      }
-      customStyle = await readFile(resolvedStylePath, 'utf-8');
-    }
+function printUsage() {
+  console.error('Usage: svg-video <input.svg> <output.mp4|output-dir/|frame_%05d.png> [options]');
+  console.error('       svg-video batch <dir|glob|manifest.json|manifest.yaml> [output-dir] [options]');
+  console.error('       svg-video inspect <input.svg> [--json]');
+  console.error('       svg-video serve [--port 8080] [options]');
+  console.error('       svg-video cache prune [--max-age <days>] [--max-size <MB>]');
+  console.error('\nOptions:');
+  console.error('  -w, --width <pixels>     Output width (default: from SVG or height)');
+  console.error('  -h, --height <pixels>    Output height (default: from SVG or width)');
+  console.error('  --fit <mode>             How the SVG fills the output: contain, cover, fill or none');
+  console.error('                           (default: contain)');
+  console.error('  --anchor <position>      Position of the SVG: center, top, bottom, left, right,');
+  console.error('                           top-left, top-right, bottom-left or bottom-right');
+  console.error('  -d, --duration <seconds> Override animation duration');
+  console.error('  --start <time>           Time on the animation timeline where recording starts');
+  console.error('  --end <time>             Time on the animation timeline where recording ends');
+  console.error('  --max-duration <seconds> Longest recording of SVGs that call svgVideo.done()');
+  console.error('                           (default: 60)');
+  console.error('  --loops <n>              Repeat the loop of a looping SVG n times');
+  console.error('  --length <time>          Repeat the loop of a looping SVG and trim to this length');
+  console.error('  --crossfade <seconds>    Blend the end of the loop into its start');
+  console.error('  -f, --fps <number>       Frame rate (default: 30)');
+  console.error('  --scale <factor>         Render 1-4 times larger and downscale for smoother edges');
+  console.error('  -s, --style <file>       Path to a CSS file with extra styles');
+  console.error('  -c, --capture <mode>     Capture mode: realtime or frames (default: realtime)');
+  console.error('  --render <mode>          How the SVG is embedded: img, inline or object');
+  console.error('                           (default: inline for SVGs with scripts or external files)');
+  console.error('  --format <format>        Output format: mp4, webm, mov, gif, webp or apng');
+  console.error('                           (default: from extension)');
+  console.error('  --dither <mode>          GIF dithering: bayer, heckbert, floyd_steinberg, sierra2,');
+  console.error('                           sierra2_4a or none (default: sierra2_4a)');
+  console.error('  --preset <name>          Output preset: instagram-square, instagram-portrait,');
+  console.error('                           instagram-story, tiktok, youtube, youtube-4k, twitter');
+  console.error('  --quality-preset <name>  Encoder settings: web, archive or lossless');
+  console.error('  --codec <codec>          Video codec: h264, h265, vp9, av1, av1-aom, prores, qtrle');
+  console.error('                           (default: h264 for mp4, vp9 for webm, prores for mov)');
+  console.error('  --crf <number>           Constant quality, lower is better');
+  console.error('  --speed <preset>         Codec speed preset (e.g. medium or veryslow for h264)');
+  console.error('  --bitrate <rate>         Target bitrate (e.g. 5M or 2500k)');
+  console.error('  --two-pass               Two-pass encoding (requires --bitrate)');
+  console.error('  --pix-fmt <format>       Pixel format (e.g. yuv420p10le)');
+  console.error('  --tune <name>            Codec tuning (e.g. animation for h264)');
+  console.error('  -t, --transparent        Keep transparent background (webm, mov, gif, webp, apng)');
+  console.error('  --background <value>     Background color, CSS gradient or image file');
+  console.error('  --pad-color <color>      Color of the letterbox bars (default: background color)');
+  console.error('  --inline-resources       Embed local images, fonts and stylesheets of the SVG');
+  console.error('  --fonts <dir>            Directory of font files used by the SVG');
+  console.error('  --audio <file>           Soundtrack of the video (mp4, webm, mov)');
+  console.error('  --audio-start <time>     Position in the audio file where the soundtrack starts');
+  console.error('  --audio-fade-in <sec>    Length of the audio fade-in');
+  console.error('  --audio-fade-out <sec>   Length of the audio fade-out');
+  console.error('  --volume <value>         Audio volume as a factor or in decibels (e.g. 0.5 or -6dB)');
+  console.error('  --audio-extend           Repeat the loop of a looping SVG to the length of the audio');
+  console.error('  --watch                  Convert again when the SVG, style or local assets change');
+  console.error('  --no-cache               Render again even if the output or the recording is cached');
+  console.error('  --cache-dir <path>       Cache directory (default: ~/.cache/svg-video)');
+  console.error('  --keep-temp              Keep the generated page, recording and ffmpeg log');
+  console.error('  -j, --concurrency <n>    Number of pages rendered at the same time in batch mode');
+  console.error('                           (default: 2)');
+  console.error('  --port <number>          Port of the HTTP server (default: 8080)');
+  console.error('  --host <address>         Address of the HTTP server (default: 127.0.0.1)');
+  console.error('  --max-size <MB>          Largest SVG upload of the HTTP server (default: 10),');
+  console.error('                           or size of the cache after prune');
+  console.error('  --max-age <days>         Prune cache entries not used for this many days (default: 30)');
+  console.error('  --job-ttl <seconds>      How long the server keeps finished jobs (default: 3600)');
+  console.error('  --json                   Print progress, warnings, result and errors as JSON lines');
+  console.error('  --progress <format>      Progress output: text or ndjson (same as --json)');
+  console.error("  -v, --version            Show version number");
+  console.error('\nExamples:');
+  console.error('  svg-video input.svg output.mp4');
+  console.error('  svg-video input.svg output.mp4 --width 1920 --height 1080');
+  console.error('  svg-video input.svg output.mp4 -d 10');
+  console.error('  svg-video input.svg teaser.mp4 --start 5s --end 8s');
+  console.error('  svg-video loop.svg ad.mp4 --length 15 --crossfade 0.5');
+  console.error('  svg-video input.svg output.mp4 --preset instagram-story --fit cover --anchor top');
+  console.error('  svg-video input.svg output.gif --dither bayer');
+  console.error('  svg-video input.svg output.mp4 --codec h265 --crf 16 --tune animation');
+  console.error('  svg-video input.svg output.mp4 --bitrate 8M --two-pass');
+  console.error('  svg-video input.svg output.webm --transparent');
+  console.error('  svg-video input.svg output.mp4 --background "#ffffff"');
+  console.error('  svg-video input.svg frames/ -f 24');
+  console.error('  svg-video input.svg output.mp4 --audio music.mp3 --audio-fade-out 2');
+  console.error('  svg-video batch "icons/*.svg" videos/ -j 4');
+  console.error('  svg-video input.svg output.mp4 --watch');
+  console.error('  svg-video inspect input.svg');
+  console.error('  svg-video serve --port 8080 -j 4 --max-duration 30');
+  console.error('  svg-video cache prune --max-size 2000');
+  console.error('  svg-video input.svg output.mp4 --progress=ndjson');
+}
 
-    // Check if FFmpeg is installed
-    console.log('Checking system dependencies...');
-    await checkFFmpeg();
+/**
+ * Return conversion options shared by single and batch mode
+ */
+function sharedOptions(options: ParsedOptions) {
+  // Normalize options (handle both long and short forms)
+  return {
+    width: options.width ?? options.w,
+    height: options.height ?? options.h,
+    fit: options.fit as FitMode | undefined,
+    anchor: options.anchor as Anchor | undefined,
+    duration: options.duration ?? options.d,
+    start: parseSeconds(options.start, 'Start'),
+    end: parseSeconds(options.end, 'End'),
+    maxDuration: options['max-duration'],
+    loops: options.loops,
+    length: parseSeconds(options.length, 'Length'),
+    crossfade: options.crossfade,
+    fps: options.fps ?? options.f,
+    scale: options.scale,
+    capture: (options.capture ?? options.c) as CaptureMode | undefined,
+    render: options.render as RenderMode | undefined,
+    format: options.format as OutputFormat | undefined,
+    dither: options.dither,
+    preset: options.preset as OutputPresetName | undefined,
+    qualityPreset: options['quality-preset'] as EncoderPreset | undefined,
+    encoder: {
+      codec: options.codec,
+      crf: options.crf,
+      speed: options.speed,
+      bitrate: options.bitrate,
+      twoPass: options['two-pass'],
+      pixelFormat: options['pix-fmt'],
+      tune: options.tune,
+    },
+    transparent: Boolean(options.transparent ?? options.t),
+    background: options.background,
+    padColor: options['pad-color'],
+    audio: audioOptions(options),
+    inlineResources: Boolean(options['inline-resources']),
+    fonts: options.fonts,
+    cache: options.cache !== false && !options['no-cache'],
+    cacheDirectory: options['cache-dir'],
+    keepTemp: Boolean(options['keep-temp']),
+  } satisfies Partial<ConvertOptions>;
+}
+
+function audioOptions(options: ParsedOptions): AudioOptions | undefined {
+  if (!options.audio) {
+    return undefined;
+  }
+  return {
+    path: resolve(options.audio),
+    start: parseSeconds(options['audio-start'], 'Audio start'),
+    fadeIn: options['audio-fade-in'],
+    fadeOut: options['audio-fade-out'],
+    volume: options.volume,
+    extend: Boolean(options['audio-extend']),
+  };
+}
 
-    // Analyze SVG
-    console.log('Analyzing SVG...');
-    const svgAnalysis = await analyzeSVG(inputPath);
-    console.log(
-      `SVG dimensions: ${svgAnalysis.dimensions.width}x${svgAnalysis.dimensions.height}`
+/**
+ * Check if the output is NDJSON events instead of text
+ */
+function jsonOutput(options: ParsedOptions): boolean {
+  const format = options.json ? 'ndjson' : options.progress ?? 'text';
+  if (!PROGRESS_FORMATS.includes(format)) {
+    throw new ValidationError(
+      `Invalid progress format: ${format} (expected ${PROGRESS_FORMATS.join(' or ')})`
     );
+  }
+  return format === 'ndjson';
+}
 
-    // Determine dimensions
-    let finalWidth = width || svgAnalysis.dimensions.width;
-    let finalHeight = height || svgAnalysis.dimensions.height;
-
-    // Validate dimensions
-    finalWidth = validatePositiveNumber(finalWidth, 'Width');
-    finalHeight = validatePositiveNumber(finalHeight, 'Height');
-
-    // Determine duration
-    let durationMs: number;
-
-    if (duration) {
-      // User provided duration
-      const durationSeconds = validatePositiveNumber(duration, 'Duration');
-      durationMs = durationSeconds * 1000;
-      console.log(`Using manual duration: ${durationSeconds}s`);
-    } else if (svgAnalysis.hasInfiniteAnimations) {
-      // Check if we detected a loop duration
-      if (svgAnalysis.loopDuration !== null && svgAnalysis.loopDuration > 0) {
-        durationMs = svgAnalysis.loopDuration;
-        console.log(
-          `Detected infinite animation with loop duration: ${(durationMs / 1000).toFixed(2)}s`
-        );
-        console.log('Recording one complete loop...');
-      } else {
-        throw new ValidationError(
-          'SVG contains infinite animations without detectable loop duration. Please specify duration with --duration option.'
-        );
-      }
-    } else if (!svgAnalysis.hasAnimations) {
-      throw new ValidationError(
-        'No animations detected in SVG. Please specify duration with --duration option.'
-      );
-    } else if (svgAnalysis.duration === null) {
-      throw new ValidationError(
-        'Unable to determine animation duration. Please specify duration with --duration option.'
-      );
-    } else {
-      durationMs = svgAnalysis.duration;
-      console.log(
-        `Detected animation duration: ${(durationMs / 1000).toFixed(2)}s`
-      );
+/**
+ * Abort the conversion on Ctrl+C and SIGTERM, so temporary files are
+ * deleted and the browser is closed. A second signal exits at once.
+ */
+function abortOnSignals(): AbortSignal {
+  const controller = new AbortController();
+  const handler = (name: NodeJS.Signals) => {
+    if (controller.signal.aborted) {
+      process.exit(name === 'SIGINT' ? 130 : 143);
     }
+    controller.abort(new SystemError(`Interrupted by ${name}`));
+  };
+  process.on('SIGINT', handler);
+  process.on('SIGTERM', handler);
+  return controller.signal;
+}
 
-    // Validate FPS
-    const finalFps = validatePositiveNumber(fps, 'FPS');
-
-    // Generate temporary HTML file
-    console.log('Generating HTML...');
-    const tempHtmlPath = getTempFilePath('html');
-    await generateHTMLFile(
-      {
-        svgPath: inputPath,
-        width: finalWidth,
-        height: finalHeight,
-        style: customStyle,
-      },
-      tempHtmlPath
-    );
+function writeLine(line: string) {
+  process.stdout.write(line);
+}
 
-    // Record animation
-    const durationSeconds = durationMs / 1000;
-    const estimatedMinutes = Math.floor(durationSeconds / 60);
-    const estimatedSeconds = Math.round(durationSeconds % 60);
-    
-    let timeEstimate = '';
-    if (estimatedMinutes > 0) {
-      timeEstimate = `${estimatedMinutes}m ${estimatedSeconds}s`;
-    } else {
-      timeEstimate = `${estimatedSeconds}s`;
+/**
+ * Create callbacks of the conversion that print status messages, warnings
+ * and progress as text
+ */
+function textOutput() {
+  // Progress is printed on a single line, rewritten with \r
+  let progressLine = false;
+  let lastProgress = 0;
+  const endProgressLine = () => {
+    if (progressLine) {
+      process.stdout.write('\n');
+      progressLine = false;
     }
-    
-    console.log(`Recording animation (${durationSeconds.toFixed(1)}s duration, estimated time: ~${timeEstimate})...`);
-    
-    const tempVideoPath = getTempFilePath('webm');
-    
-    // Track progress
-    let lastProgress = 0;
-    await recordAnimation(tempHtmlPath, tempVideoPath, {
-      width: finalWidth,
-      height: finalHeight,
-      duration: durationMs,
-      fps: finalFps,
-    }, (progress) => {
+  };
+
+  return {
+    endProgressLine,
+    onLog(message: string) {
+      endProgressLine();
+      console.log(message);
+    },
+    onWarning(warning: string) {
+      endProgressLine();
+      console.warn(`Warning: ${warning}`);
+    },
+    onProgress({ phase, percent, time }: ConvertProgress) {
+      const label = PROGRESS_LABELS[phase];
+      if (!label) {
+        return;
+      }
+      if (percent === 0) {
+        lastProgress = 0;
+        return;
+      }
       // Update progress every 10%
-      if (progress >= lastProgress + 10 || progress === 100) {
-        process.stdout.write(`\rRecording progress: ${progress}%`);
-        lastProgress = progress;
+      if (percent >= lastProgress + 10 || percent === 100) {
+        // Recording shows the position on the animation timeline
+        const position = time !== undefined ? ` (${(time / 1000).toFixed(1)}s)` : '';
+        process.stdout.write(`\r${label}: ${percent}%${position}`);
+        progressLine = true;
+        lastProgress = percent;
       }
+    },
+  };
+}
+
+function printResult(result: ConvertResult) {
+  if (result.format === 'png-sequence') {
+    console.log(`\nSuccess! Frames saved to: ${result.outputPath}`);
+    console.log(`Sequence info saved to: ${result.sequenceInfoPath}`);
+  } else {
+    console.log(`\nSuccess! Video saved to: ${result.outputPath}`);
+  }
+}
+
+async function convertCommand(options: ParsedOptions, json: boolean) {
+  const stylePath = options.style ?? options.s;
+
+  // Load custom CSS file (if provided)
+  let customStyle: string | undefined;
+  if (stylePath) {
+    const resolvedStylePath = resolve(stylePath);
+    if (!(await fileExists(resolvedStylePath))) {
+      throw new ValidationError(`Style file not found: ${resolvedStylePath}`);
+    }
+    customStyle = await readFile(resolvedStylePath, 'utf-8');
+  }
+
+  const input = {
+    ...sharedOptions(options),
+    // Extract positional arguments (input and output)
+    input: options._[0],
+    output: options._[1],
+    style: customStyle,
+    signal: abortOnSignals(),
+  };
+
+  if (json) {
+    const events = createEventWriter(writeLine);
+    events.onResult(await convert({ ...input, ...events }));
+    return;
+  }
+
+  const output = textOutput();
+  const result = await convert({ ...input, ...output });
+  output.endProgressLine();
+  printResult(result);
+}
+
+async function watchCommand(options: ParsedOptions, json: boolean) {
+  const stylePath = options.style ?? options.s;
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+  process.once('SIGTERM', () => controller.abort());
+
+  const convertOptions = {
+    ...sharedOptions(options),
+    input: options._[0],
+    output: options._[1],
+  };
+
+  if (json) {
+    const events = createEventWriter(writeLine);
+    await watchConversion({
+      convert: { ...convertOptions, ...events },
+      stylePath,
+      signal: controller.signal,
+      onChange(files) {
+        events.onLog(`Changed: ${files.map((file) => basename(file)).join(', ')}`);
+      },
+      onDiff(changes) {
+        changes.forEach((change) => events.onLog(change));
+      },
+      onResult: events.onResult,
+      onError: events.onError,
     });
-    
-    console.log('\nRecording complete!');
-
-    // Process video (convert to MP4)
-    console.log('Converting to MP4...');
-    await processVideo(tempVideoPath, outputPath, {
-      width: finalWidth,
-      height: finalHeight,
+    return;
+  }
+
+  const output = textOutput();
+  const waiting = () => console.log('\nWatching for changes (Ctrl+C to stop)...');
+  await watchConversion({
+    convert: { ...convertOptions, ...output },
+    stylePath,
+    signal: controller.signal,
+    onChange(files) {
+      output.endProgressLine();
+      console.log(`\nChanged: ${files.map((file) => basename(file)).join(', ')}`);
+    },
+    onDiff(changes) {
+      console.log(changes.length > 0 ? changes.join('\n') : 'Analysis unchanged');
+    },
+    onResult(result) {
+      output.endProgressLine();
+      printResult(result);
+      waiting();
+    },
+    onError(error: any) {
+      output.endProgressLine();
+      console.error(`\n${errorCategory(error).label}: ${error.message}`);
+      waiting();
+    },
+  });
+}
+
+async function batchCommand(options: ParsedOptions, json: boolean) {
+  const [, source, outputDir = '.'] = options._;
+  const concurrency = validatePositiveNumber(options.concurrency ?? options.j ?? 2, 'Concurrency');
+  const stylePath = options.style ?? options.s;
+
+  const jobs = await findJobs(source, outputDir, {
+    ...sharedOptions(options),
+    style: stylePath ? resolve(stylePath) : undefined,
+  });
+  const signal = abortOnSignals();
+
+  let entries: BatchEntry[];
+  if (json) {
+    // Events of every job carry its index
+    const events = jobs.map((_, index) => createEventWriter(writeLine, index));
+    entries = await runBatch(jobs, {
+      concurrency,
+      signal,
+      onJobStart(job, index) {
+        events[index].onLog(`Converting ${job.input}`);
+      },
+      onJobEnd(entry, index) {
+        if (entry.error) {
+          events[index].onError(entry.error);
+        } else {
+          events[index].onResult(entry.result!);
+        }
+      },
+      onWarning(job, warning) {
+        events[jobs.indexOf(job)].onWarning(warning);
+      },
+      onProgress(job, progress) {
+        events[jobs.indexOf(job)].onProgress(progress);
+      },
+    });
+  } else {
+    console.log(`Converting ${jobs.length} files (${concurrency} at a time)...`);
+    entries = await runBatch(jobs, {
+      concurrency,
+      signal,
+      onJobStart(job, index) {
+        console.log(`[${index + 1}/${jobs.length}] ${basename(job.input)}...`);
+      },
+      onJobEnd(entry, index) {
+        const status = entry.error ? errorCategory(entry.error).label : 'done';
+        console.log(`[${index + 1}/${jobs.length}] ${basename(entry.job.input)}: ${status}`);
+      },
+      onWarning(job, warning) {
+        console.warn(`Warning (${basename(job.input)}): ${warning}`);
+      },
     });
+    console.log(`\n${formatSummary(entries)}`);
+  }
 
-    // Cleanup temporary files
-    console.log('Cleaning up...');
-    await deleteFile(tempHtmlPath);
-    await deleteFile(tempVideoPath);
+  // Exit with the most severe error category
+  const exitCode = Math.max(0, ...entries
+    .filter((entry) => entry.error)
+    .map((entry) => errorCategory(entry.error).exitCode));
+  if (exitCode > 0) {
+    process.exit(exitCode);
+  }
+}
 
-    console.log(`\nSuccess! Video saved to: ${outputPath}`);
-  } catch (error: any) {
-    if (error instanceof ValidationError) {
-      console.error(`\nValidation Error: ${error.message}`);
-      process.exit(1);
-    } else if (error instanceof ProcessingError) {
-      console.error(`\nProcessing Error: ${error.message}`);
-      process.exit(2);
-    } else if (error instanceof SystemError) {
-      console.error(`\nSystem Error: ${error.message}`);
-      process.exit(3);
+async function inspectCommand(options: ParsedOptions, json: boolean) {
+  const inputPath = resolve(options._[1]);
+  if (!(await fileExists(inputPath))) {
+    throw new ValidationError(`Input file not found: ${inputPath}`);
+  }
+  const analysis = await analyzeSVG(inputPath);
+  if (json) {
+    console.log(JSON.stringify(analysis, null, 2));
+  } else {
+    console.log(formatInspection(analysis));
+  }
+}
+
+async function serveCommand(options: ParsedOptions) {
+  const port = options.port ?? 8080;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new ValidationError(`Port must be an integer from 0 to 65535, got: ${port}`);
+  }
+  const maxSize = validatePositiveNumber(options['max-size'] ?? 10, 'Max size');
+  const server = createRenderServer({
+    concurrency: validatePositiveNumber(options.concurrency ?? options.j ?? 2, 'Concurrency'),
+    maxDuration: validatePositiveNumber(options['max-duration'] ?? 60, 'Max duration'),
+    maxSize: maxSize * 1024 * 1024,
+    jobTTL: validatePositiveNumber(options['job-ttl'] ?? 3600, 'Job TTL'),
+    onLog: (message) => console.log(message),
+  });
+  const address = await server.listen(port, options.host);
+  console.log(`Listening on http://${address.address}:${address.port}`);
+
+  // Running jobs are aborted and their files deleted
+  const shutdown = () => {
+    console.log('Shutting down...');
+    server.close().then(() => process.exit(0), () => process.exit(3));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+async function cacheCommand(options: ParsedOptions, json: boolean) {
+  if (options._[1] !== 'prune') {
+    throw new ValidationError(`Unknown cache command: ${options._[1] ?? ''} (expected prune)`);
+  }
+  const directory = resolve(options['cache-dir'] ?? defaultCacheDirectory());
+  const days = options['max-age'] ?? 30;
+  if (isNaN(Number(days)) || Number(days) < 0) {
+    throw new ValidationError('Max age must be a non-negative number');
+  }
+  const result = await pruneCache(directory, {
+    maxAge: Number(days) * 24 * 60 * 60 * 1000,
+    maxSize: options['max-size'] !== undefined
+      ? validatePositiveNumber(options['max-size'], 'Max size') * 1024 * 1024
+      : undefined,
+  });
+  if (json) {
+    console.log(JSON.stringify({ directory, ...result }));
+  } else {
+    const megabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    console.log(`Removed ${result.removed} entries (${megabytes(result.freed)}) from ${directory}`);
+    console.log(`Cache size: ${megabytes(result.size)}`);
+  }
+}
+
+async function main() {
+  let json = false;
+  try {
+    // Parse CLI arguments
+    const options = lily(process.argv.slice(2), {
+      parse_args: true,
+    }) as ParsedOptions;
+    json = jsonOutput(options);
+    if (options.version) {
+      console.error(version());
+      process.exit(0);
+    } else if (options._[0] === 'batch' && options._.length >= 2) {
+      await batchCommand(options, json);
+    } else if (options._[0] === 'inspect' && options._.length >= 2) {
+      await inspectCommand(options, json);
+    } else if (options._[0] === 'cache') {
+      await cacheCommand(options, json);
+    } else if (options._[0] === 'serve') {
+      await serveCommand(options);
+    } else if (options._.length < 2) {
+      printUsage();
+      process.exit(0);
+    } else if (options.watch) {
+      await watchCommand(options, json);
     } else {
-      console.error(`\nUnexpected Error: ${error.message}`);
+      await convertCommand(options, json);
+    }
+  } catch (error: any) {
+    const { label, exitCode } = errorCategory(error);
+    if (json) {
+      createEventWriter(writeLine).onError(error);
+      process.exit(exitCode);
+    }
+    console.error(`\n${label}: ${error.message}`);
+    if (exitCode === 99) {
       console.error(error.stack);
-      process.exit(99);
     }
+    process.exit(exitCode);
   }
 }
 
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  audioFilters,
+  audioInputOptions,
+  parseVolume,
+  prepareAudio,
+  AudioTrack,
+} from './audio.js';
+import { ValidationError } from './utils.js';
+
+const TRACK: AudioTrack = {
+  path: '/music.mp3',
+  start: 0,
+  fadeIn: 0,
+  fadeOut: 0,
+  volume: 1,
+  duration: 10000,
+};
+
+describe('parseVolume', () => {
+  it('accepts factors and decibels', () => {
+    expect(parseVolume(0.5)).toBe(0.5);
+    expect(parseVolume('2')).toBe(2);
+    expect(parseVolume('-6db')).toBe('-6dB');
+    expect(parseVolume('+3.5dB')).toBe('+3.5dB');
+  });
+
+  it('rejects invalid values', () => {
+    expect(() => parseVolume(-1)).toThrow(ValidationError);
+    expect(() => parseVolume('loud')).toThrow(ValidationError);
+  });
+});
+
+describe('audioInputOptions', () => {
+  it('seeks to the start offset', () => {
+    expect(audioInputOptions({ ...TRACK, start: 2500 }, 5000)).toEqual(['-ss 2.5']);
+  });
+
+  it('loops audio shorter than the video', () => {
+    expect(audioInputOptions({ ...TRACK, start: 4000 }, 8000))
+      .toEqual(['-stream_loop -1', '-ss 4']);
+  });
+});
+
+describe('audioFilters', () => {
+  it('fades out at the end of the video', () => {
+    const track = { ...TRACK, volume: '-6dB', fadeIn: 500, fadeOut: 2000 };
+    expect(audioFilters(track, 6000)).toEqual([
+      'volume=-6dB',
+      'afade=t=in:st=0:d=0.5',
+      'afade=t=out:st=4:d=2',
+    ]);
+  });
+
+  it('has no filters by default', () => {
+    expect(audioFilters(TRACK, 6000)).toEqual([]);
+  });
+});
+
+describe('prepareAudio', () => {
+  it('throws ValidationError when the file is missing', async () => {
+    await expect(prepareAudio({ path: 'missing.mp3' })).rejects.toThrow('Audio file not found');
+  });
+});
@@ -0,0 +1,152 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { resolve } from 'path';
+import { fileExists, ProcessingError, ValidationError } from './utils.js';
+
+/**
+ * Soundtrack of the video
+ */
+export interface AudioOptions {
+  /** Path to the audio file */
+  path: string;
+  /** Position in the audio file where the soundtrack starts, in seconds (default: 0) */
+  start?: number;
+  /** Length of the fade-in, in seconds */
+  fadeIn?: number;
+  /** Length of the fade-out at the end of the video, in seconds */
+  fadeOut?: number;
+  /** Volume as a factor (e.g. 0.5) or in decibels (e.g. "-6dB") */
+  volume?: number | string;
+  /** Repeat the loop of a looping SVG until the end of the audio */
+  extend?: boolean;
+}
+
+/**
+ * Validated audio options with the length of the audio file,
+ * times are in milliseconds
+ */
+export interface AudioTrack {
+  path: string;
+  start: number;
+  fadeIn: number;
+  fadeOut: number;
+  volume: number | string;
+  duration: number; // length of the audio file
+}
+
+/**
+ * Validate audio options and read length of the audio file
+ */
+export async function prepareAudio(options: AudioOptions): Promise<AudioTrack> {
+  const path = resolve(options.path);
+  if (!(await fileExists(path))) {
+    throw new ValidationError(`Audio file not found: ${path}`);
+  }
+
+  const start = seconds(options.start, 'Audio start');
+  const fadeIn = seconds(options.fadeIn, 'Audio fade-in');
+  const fadeOut = seconds(options.fadeOut, 'Audio fade-out');
+  const volume = parseVolume(options.volume ?? 1);
+
+  const duration = await probeDuration(path);
+  if (start >= duration) {
+    throw new ValidationError(
+      `Audio start (${start / 1000}s) is after the end of the audio file (${(duration / 1000).toFixed(2)}s)`
+    );
+  }
+
+  return { path, start, fadeIn, fadeOut, volume, duration };
+}
+
+/**
+ * Return length of a media file in milliseconds
+ */
+export function probeDuration(path: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(path, (error, data) => {
+      if (error) {
+        reject(new ProcessingError(`Failed to read audio file ${path}: ${error.message}`));
+        return;
+      }
+      const duration = Number(data.format.duration);
+      if (!data.streams.some((stream) => stream.codec_type === 'audio')) {
+        reject(new ValidationError(`File has no audio stream: ${path}`));
+      } else if (!(duration > 0)) {
+        reject(new ProcessingError(`Unable to determine length of audio file: ${path}`));
+      } else {
+        resolve(duration * 1000);
+      }
+    });
+  });
+}
+
+/**
+ * Length of the audio that is played, from the start offset to the end of file
+ */
+export function playableLength(audio: AudioTrack): number {
+  return audio.duration - audio.start;
+}
+
+/**
+ * ffmpeg input options of the audio file, the audio loops when
+ * it's shorter than the video
+ */
+export function audioInputOptions(audio: AudioTrack, length: number): string[] {
+  const options: string[] = [];
+  if (playableLength(audio) < length) {
+    // Every repetition plays the whole file
+    options.push('-stream_loop -1');
+  }
+  if (audio.start > 0) {
+    options.push(`-ss ${audio.start / 1000}`);
+  }
+  return options;
+}
+
+/**
+ * ffmpeg audio filters for volume and fades of a video with given length
+ */
+export function audioFilters(audio: AudioTrack, length: number): string[] {
+  const filters: string[] = [];
+  if (audio.volume !== 1) {
+    filters.push(`volume=${audio.volume}`);
+  }
+  if (audio.fadeIn > 0) {
+    filters.push(`afade=t=in:st=0:d=${audio.fadeIn / 1000}`);
+  }
+  if (audio.fadeOut > 0) {
+    const fadeOut = Math.min(audio.fadeOut, length);
+    filters.push(`afade=t=out:st=${(length - fadeOut) / 1000}:d=${fadeOut / 1000}`);
+  }
+  return filters;
+}
+
+/**
+ * Return volume factor or decibel value accepted by the ffmpeg volume filter
+ */
+export function parseVolume(volume: number | string): number | string {
+  if (typeof volume === 'string') {
+    const value = volume.trim();
+    if (/^[-+]?\d+(\.\d+)?dB$/i.test(value)) {
+      return value.replace(/db$/i, 'dB');
+    }
+    volume = Number(value);
+  }
+  if (isNaN(volume) || volume < 0) {
+    throw new ValidationError('Volume must be a non-negative number or a decibel value (e.g. -6dB)');
+  }
+  return volume;
+}
+
+/**
+ * Convert optional non-negative seconds into milliseconds
+ */
+function seconds(value: number | undefined, name: string): number {
+  if (value === undefined) {
+    return 0;
+  }
+  const num = Number(value);
+  if (isNaN(num) || num < 0) {
+    throw new ValidationError(`${name} must be a non-negative number`);
+  }
+  return num * 1000;
+}
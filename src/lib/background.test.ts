@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseBackground, parseColor } from './background.js';
+import { ValidationError } from './utils.js';
+
+describe('parseColor', () => {
+  it('converts CSS colors to ffmpeg colors', () => {
+    expect(parseColor('White')).toBe('white');
+    expect(parseColor('#f80')).toBe('0xFF8800');
+    expect(parseColor('#1a2b3c80')).toBe('0x1A2B3C@0.5');
+    expect(parseColor('rgb(255, 0, 128)')).toBe('0xFF0080');
+    expect(parseColor('rgba(0 0 0 / 25%)')).toBe('0x000000@0.25');
+    expect(parseColor('transparent')).toBe('black@0');
+  });
+
+  it('returns null for other values', () => {
+    expect(parseColor('brand')).toBeNull();
+    expect(parseColor('#12345')).toBeNull();
+    expect(parseColor('rgb(300, 0, 0)')).toBeNull();
+  });
+});
+
+describe('parseBackground', () => {
+  it('pads gradients with their first color', async () => {
+    expect(await parseBackground('linear-gradient(to right, #003366, rgb(0, 128, 255))')).toEqual({
+      type: 'gradient',
+      css: 'linear-gradient(to right, #003366, rgb(0, 128, 255))',
+      padColor: '0x003366',
+    });
+  });
+
+  it('rejects missing images', async () => {
+    const image = join(tmpdir(), 'missing-background.png');
+    await expect(parseBackground(image)).rejects.toThrow('Background image not found');
+  });
+
+  it('rejects unknown values', async () => {
+    await expect(parseBackground('brand-blue')).rejects.toThrow(ValidationError);
+  });
+});
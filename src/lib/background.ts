@@ -0,0 +1,129 @@
+import { extname, resolve } from 'path';
+import { fileExists, ValidationError } from './utils.js';
+
+/**
+ * Background behind the animation, `css` is the value of the page
+ * background and `padColor` the ffmpeg color of the padding
+ */
+export interface Background {
+  type: 'color' | 'gradient' | 'image';
+  css: string;
+  padColor: string;
+}
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg', '.avif', '.bmp'];
+
+// CSS named colors, ffmpeg understands the same names
+const NAMED_COLORS = new Set((
+  'aliceblue antiquewhite aqua aquamarine azure beige bisque black blanchedalmond blue ' +
+  'blueviolet brown burlywood cadetblue chartreuse chocolate coral cornflowerblue cornsilk ' +
+  'crimson cyan darkblue darkcyan darkgoldenrod darkgray darkgreen darkgrey darkkhaki ' +
+  'darkmagenta darkolivegreen darkorange darkorchid darkred darksalmon darkseagreen ' +
+  'darkslateblue darkslategray darkslategrey darkturquoise darkviolet deeppink deepskyblue ' +
+  'dimgray dimgrey dodgerblue firebrick floralwhite forestgreen fuchsia gainsboro ghostwhite ' +
+  'gold goldenrod gray green greenyellow grey honeydew hotpink indianred indigo ivory khaki ' +
+  'lavender lavenderblush lawngreen lemonchiffon lightblue lightcoral lightcyan ' +
+  'lightgoldenrodyellow lightgray lightgreen lightgrey lightpink lightsalmon lightseagreen ' +
+  'lightskyblue lightslategray lightslategrey lightsteelblue lightyellow lime limegreen linen ' +
+  'magenta maroon mediumaquamarine mediumblue mediumorchid mediumpurple mediumseagreen ' +
+  'mediumslateblue mediumspringgreen mediumturquoise mediumvioletred midnightblue mintcream ' +
+  'mistyrose moccasin navajowhite navy oldlace olive olivedrab orange orangered orchid ' +
+  'palegoldenrod palegreen paleturquoise palevioletred papayawhip peachpuff peru pink plum ' +
+  'powderblue purple rebeccapurple red rosybrown royalblue saddlebrown salmon sandybrown ' +
+  'seagreen seashell sienna silver skyblue slateblue slategray slategrey snow springgreen ' +
+  'steelblue tan teal thistle tomato turquoise violet wheat white whitesmoke yellow yellowgreen'
+).split(' '));
+
+const COLOR_PATTERN = /#[0-9a-f]{3,8}\b|rgba?\([^)]*\)|\b[a-z]+\b/gi;
+
+/**
+ * Parse background option: a CSS color, a CSS gradient or a path to an image
+ */
+export async function parseBackground(value: string): Promise<Background> {
+  const background = value.trim();
+
+  if (/^(repeating-)?(linear|radial|conic)-gradient\(.*\)$/is.test(background)) {
+    // Padding uses the first color of the gradient
+    const inner = background.slice(background.indexOf('(') + 1);
+    const first = (inner.match(COLOR_PATTERN) ?? []).find((token) => parseColor(token) !== null);
+    if (!first) {
+      throw new ValidationError(`Gradient has no valid color: ${background}`);
+    }
+    return { type: 'gradient', css: background, padColor: parseColor(first)! };
+  }
+
+  const padColor = parseColor(background);
+  if (padColor !== null) {
+    return { type: 'color', css: background, padColor };
+  }
+
+  if (isImagePath(background)) {
+    const path = resolve(background);
+    if (!(await fileExists(path))) {
+      throw new ValidationError(`Background image not found: ${path}`);
+    }
+    const url = JSON.stringify(`file://${path}`);
+    // Colors of the image are not known, the padding can be set with padColor
+    return { type: 'image', css: `url(${url}) center / cover no-repeat`, padColor: 'black' };
+  }
+
+  throw new ValidationError(
+    `Invalid background: ${background} (expected a color, a CSS gradient or an image file)`
+  );
+}
+
+/**
+ * Check if background option is a path to an image
+ */
+export function isImagePath(value: string): boolean {
+  return IMAGE_EXTENSIONS.includes(extname(value.trim()).toLowerCase());
+}
+
+/**
+ * Convert CSS color (name, #hex, rgb() or rgba()) into ffmpeg color,
+ * return null if it's not a color
+ */
+export function parseColor(value: string): string | null {
+  const color = value.trim().toLowerCase();
+
+  if (color === 'transparent') {
+    return 'black@0';
+  }
+  if (NAMED_COLORS.has(color)) {
+    return color;
+  }
+
+  let match = color.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (match) {
+    let hex = match[1];
+    if (hex.length <= 4) {
+      hex = hex.split('').map((digit) => digit + digit).join('');
+    }
+    const alpha = hex.length === 8 ? parseInt(hex.slice(6), 16) / 255 : 1;
+    return ffmpegColor(hex.slice(0, 6), alpha);
+  }
+
+  match = color.match(/^rgba?\(\s*(\d+)\s*[, ]\s*(\d+)\s*[, ]\s*(\d+)\s*(?:[,/]\s*([\d.]+%?)\s*)?\)$/);
+  if (match) {
+    const channels = match.slice(1, 4).map(Number);
+    if (channels.some((channel) => channel > 255)) {
+      return null;
+    }
+    let alpha = 1;
+    if (match[4] !== undefined) {
+      alpha = match[4].endsWith('%') ? parseFloat(match[4]) / 100 : parseFloat(match[4]);
+      if (isNaN(alpha) || alpha > 1) {
+        return null;
+      }
+    }
+    const hex = channels.map((channel) => channel.toString(16).padStart(2, '0')).join('');
+    return ffmpegColor(hex, alpha);
+  }
+
+  return null;
+}
+
+function ffmpegColor(hex: string, alpha: number): string {
+  const color = `0x${hex.toUpperCase()}`;
+  return alpha < 1 ? `${color}@${Number(alpha.toFixed(2))}` : color;
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { findJobs, formatSummary } from './batch.js';
+import { ValidationError } from './utils.js';
+
+describe('findJobs', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'svg-video-batch-'));
+    await writeFile(join(dir, 'a.svg'), '<svg/>');
+    await writeFile(join(dir, 'b.svg'), '<svg/>');
+    await writeFile(join(dir, 'notes.txt'), '');
+    await writeFile(join(dir, 'manifest.yaml'), [
+      'outputDir: videos',
+      'defaults:',
+      '  fps: 60',
+      '  style: custom.css',
+      'jobs:',
+      '  - input: a.svg',
+      '    output: logo.gif',
+      '    format: gif',
+      '    width: 400',
+      '  - b.svg',
+    ].join('\n'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('finds SVG files in a directory', async () => {
+    const jobs = await findJobs(dir, '/out', { format: 'gif' });
+
+    expect(jobs).toEqual([
+      { format: 'gif', input: join(dir, 'a.svg'), output: '/out/a.gif' },
+      { format: 'gif', input: join(dir, 'b.svg'), output: '/out/b.gif' },
+    ]);
+  });
+
+  it('loads jobs from a YAML manifest', async () => {
+    const jobs = await findJobs(join(dir, 'manifest.yaml'), '/out', { fps: 24, width: 100 });
+
+    expect(jobs).toEqual([
+      {
+        fps: 60,
+        width: 400,
+        format: 'gif',
+        style: join(dir, 'custom.css'),
+        input: join(dir, 'a.svg'),
+        output: join(dir, 'videos', 'logo.gif'),
+      },
+      {
+        fps: 60,
+        width: 100,
+        style: join(dir, 'custom.css'),
+        input: join(dir, 'b.svg'),
+        output: join(dir, 'videos', 'b.mp4'),
+      },
+    ]);
+  });
+
+  it('finds SVG files matching a glob pattern', async () => {
+    await mkdir(join(dir, 'icons', 'small'), { recursive: true });
+    await writeFile(join(dir, 'icons', 'small', 'star.svg'), '<svg/>');
+
+    const jobs = await findJobs(join(dir, '**', '?.svg'), '/out');
+    const nested = await findJobs(join(dir, 'icons', '**', '*.svg'), '/out');
+
+    const all = await findJobs(join(dir, '*'), '/out');
+
+    expect(jobs.map((job) => job.input)).toEqual([join(dir, 'a.svg'), join(dir, 'b.svg')]);
+    expect(nested.map((job) => job.input)).toEqual([join(dir, 'icons', 'small', 'star.svg')]);
+    expect(all.map((job) => job.input)).toEqual([join(dir, 'a.svg'), join(dir, 'b.svg')]);
+  });
+
+  it('keeps outputs of files with the same name apart', async () => {
+    await mkdir(join(dir, 'icons', 'large'), { recursive: true });
+    await writeFile(join(dir, 'icons', 'large', 'star.svg'), '<svg/>');
+    await writeFile(join(dir, 'icons', 'small', 'star.svg'), '<svg/>');
+    await writeFile(join(dir, 'stars.json'), JSON.stringify([
+      'icons/large/star.svg',
+      'icons/small/star.svg',
+    ]));
+
+    const jobs = await findJobs(join(dir, 'icons', '**', '*.svg'), '/out');
+
+    expect(jobs.map((job) => job.output)).toEqual([
+      join('/out', 'large', 'star.mp4'),
+      join('/out', 'small', 'star.mp4'),
+    ]);
+    await expect(findJobs(join(dir, 'stars.json'), '/out')).rejects.toThrow(
+      `Jobs of ${join(dir, 'icons', 'large', 'star.svg')} and ` +
+      `${join(dir, 'icons', 'small', 'star.svg')} write the same output: /out/star.mp4`
+    );
+  });
+
+  it('parses clock values of the manifest', async () => {
+    await writeFile(join(dir, 'clock.json'), JSON.stringify([
+      { input: 'a.svg', start: '00:05', end: 8, audio: { path: 'music.mp3', start: '1:30' } },
+    ]));
+    await writeFile(join(dir, 'invalid.json'), JSON.stringify([
+      'a.svg',
+      { input: 'b.svg', length: 'soon' },
+    ]));
+
+    const [job] = await findJobs(join(dir, 'clock.json'), '/out');
+    expect(job).toMatchObject({ start: 5, end: 8, audio: { start: 90 } });
+    await expect(findJobs(join(dir, 'invalid.json'), '/out')).rejects.toThrow(
+      `Job 2 in manifest ${join(dir, 'invalid.json')}: length must be a number of seconds or ` +
+      'a clock value, got: soon'
+    );
+  });
+
+  it('throws ValidationError when nothing matches', async () => {
+    await expect(findJobs(join(dir, '*.png'), '/out')).rejects.toThrow(ValidationError);
+  });
+});
+
+describe('formatSummary', () => {
+  it('lists successes and failures with error categories', () => {
+    const summary = formatSummary([
+      { job: { input: '/a.svg', output: '/a.mp4' }, time: 1500 },
+      {
+        job: { input: '/b.svg', output: '/b.mp4' },
+        error: new ValidationError('No animations detected in SVG'),
+        time: 100,
+      },
+    ]);
+
+    expect(summary.split('\n')).toEqual([
+      'Input  Output  Status            Time  Details',
+      '-----  ------  ----------------  ----  -----------------------------',
+      'a.svg  /a.mp4  OK                1.5s',
+      'b.svg  /b.mp4  Validation Error  0.1s  No animations detected in SVG',
+      '',
+      '1 succeeded, 1 failed',
+    ]);
+  });
+});
@@ -0,0 +1,423 @@
+import { readdir, readFile, stat } from 'fs/promises';
+import { basename, dirname, extname, join, parse, relative, resolve, sep } from 'path';
+import YAML from 'yaml';
+import { Browser } from 'puppeteer';
+import { convert, ConvertOptions, ConvertProgress, ConvertResult } from './converter.js';
+import { launchBrowser } from './recorder.js';
+import { isImagePath } from './background.js';
+import {
+  errorCategory,
+  fileExists,
+  isDirectory,
+  parseSeconds,
+  ProcessingError,
+  ValidationError,
+} from './utils.js';
+
+/**
+ * Options of a single conversion in the batch
+ */
+export interface BatchJob {
+  input: string;
+  output: string;
+  width?: number;
+  height?: number;
+  fit?: ConvertOptions['fit'];
+  anchor?: ConvertOptions['anchor'];
+  fps?: number;
+  scale?: number;
+  duration?: number;
+  start?: number;
+  end?: number;
+  maxDuration?: number;
+  loops?: number;
+  length?: number;
+  crossfade?: number;
+  /** Path to a CSS file with extra styles */
+  style?: string;
+  format?: ConvertOptions['format'];
+  capture?: ConvertOptions['capture'];
+  render?: ConvertOptions['render'];
+  dither?: string;
+  encoder?: ConvertOptions['encoder'];
+  preset?: ConvertOptions['preset'];
+  qualityPreset?: ConvertOptions['qualityPreset'];
+  transparent?: boolean;
+  background?: string;
+  padColor?: string;
+  audio?: ConvertOptions['audio'];
+  inlineResources?: boolean;
+  /** Directory of font files */
+  fonts?: string;
+  cache?: boolean;
+  cacheDirectory?: string;
+  keepTemp?: boolean;
+}
+
+/**
+ * Options shared by all jobs
+ */
+export type BatchDefaults = Omit<BatchJob, 'input' | 'output'>;
+
+export interface BatchEntry {
+  job: BatchJob;
+  result?: ConvertResult;
+  error?: unknown;
+  time: number; // in milliseconds
+}
+
+export interface BatchOptions {
+  /** Number of pages rendered at the same time (default: 2) */
+  concurrency?: number;
+  signal?: AbortSignal;
+  onJobStart?: (job: BatchJob, index: number) => void;
+  onJobEnd?: (entry: BatchEntry, index: number) => void;
+  onWarning?: (job: BatchJob, warning: string) => void;
+  onProgress?: (job: BatchJob, progress: ConvertProgress) => void;
+}
+
+const MANIFEST_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+const JOB_OPTIONS: (keyof BatchDefaults)[] = [
+  'width', 'height', 'fit', 'anchor', 'fps', 'scale', 'duration', 'start', 'end',
+  'maxDuration', 'loops', 'length', 'crossfade', 'style', 'format', 'capture', 'render',
+  'dither', 'encoder', 'preset', 'qualityPreset', 'transparent', 'background', 'padColor',
+  'audio', 'inlineResources', 'fonts',
+];
+
+// Options in seconds that can be clock values in manifests, as on the command line
+const TIME_OPTIONS = ['start', 'end', 'length'] as const;
+
+/**
+ * Create jobs from a manifest file (JSON or YAML), a directory or a glob
+ * pattern of SVG files. Outputs of directory and glob inputs are saved into
+ * outputDir with the name of the SVG file, in the same subdirectory as the
+ * SVG is below the directory of the pattern (for patterns with **). Jobs
+ * can't write the same output.
+ */
+export async function findJobs(
+  source: string,
+  outputDir: string,
+  defaults: BatchDefaults = {}
+): Promise<BatchJob[]> {
+  if (MANIFEST_EXTENSIONS.includes(extname(source).toLowerCase())) {
+    return checkOutputs(await loadManifest(source, outputDir, defaults));
+  }
+
+  const pattern = (await isDirectory(source)) ? join(source, '*.svg') : source;
+  const inputs = (await findFiles(pattern))
+    .filter((file) => extname(file).toLowerCase() === '.svg');
+
+  if (inputs.length === 0) {
+    throw new ValidationError(`No SVG files found: ${source}`);
+  }
+
+  const base = patternBase(pattern);
+  return checkOutputs(inputs.sort().map((input) => ({
+    ...defaults,
+    input,
+    output: defaultOutput(input, join(outputDir, relative(base, dirname(input))), defaults.format),
+  })));
+}
+
+/**
+ * Load jobs from manifest. Manifest is a list of jobs or an object with
+ * optional outputDir and defaults and a list of jobs, paths are relative
+ * to the manifest file:
+ *
+ *   outputDir: videos
+ *   defaults:
+ *     fps: 60
+ *   jobs:
+ *     - input: logo.svg
+ *       output: logo.gif
+ *       width: 400
+ */
+export async function loadManifest(
+  manifestPath: string,
+  outputDir: string,
+  defaults: BatchDefaults = {}
+): Promise<BatchJob[]> {
+  const path = resolve(manifestPath);
+  if (!(await fileExists(path))) {
+    throw new ValidationError(`Manifest file not found: ${path}`);
+  }
+
+  let manifest: unknown;
+  try {
+    const content = await readFile(path, 'utf-8');
+    manifest = extname(path).toLowerCase() === '.json'
+      ? JSON.parse(content)
+      : YAML.parse(content);
+  } catch (error: any) {
+    throw new ValidationError(`Invalid manifest ${path}: ${error.message}`);
+  }
+
+  const root = dirname(path);
+  const settings = isRecord(manifest) ? manifest : {};
+  const entries = Array.isArray(manifest) ? manifest : settings.jobs;
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new ValidationError(`Manifest ${path} has no jobs`);
+  }
+  if (settings.defaults !== undefined && !isRecord(settings.defaults)) {
+    throw new ValidationError(`Defaults of manifest ${path} must be an object`);
+  }
+  if (settings.outputDir !== undefined && typeof settings.outputDir !== 'string') {
+    throw new ValidationError(`Output directory of manifest ${path} must be a path`);
+  }
+
+  const manifestDefaults = pickJobOptions(
+    settings.defaults ?? {},
+    root,
+    `Defaults of manifest ${path}`
+  );
+  const jobsDir = settings.outputDir ? resolve(root, settings.outputDir) : outputDir;
+
+  return entries.map((value: unknown, index: number) => {
+    const entry = typeof value === 'string' ? { input: value } : value;
+    if (!isRecord(entry) || typeof entry.input !== 'string') {
+      throw new ValidationError(`Job ${index + 1} in manifest ${path} has no input`);
+    }
+    const jobOptions = pickJobOptions(entry, root, `Job ${index + 1} in manifest ${path}`);
+    const options = { ...defaults, ...manifestDefaults, ...jobOptions };
+    // Encoder options of the job extend the defaults
+    if (defaults.encoder || manifestDefaults.encoder) {
+      options.encoder = {
+        ...defaults.encoder,
+        ...manifestDefaults.encoder,
+        ...jobOptions.encoder,
+      };
+    }
+    const input = resolve(root, entry.input);
+    const output = typeof entry.output === 'string'
+      ? resolve(jobsDir, entry.output)
+      : defaultOutput(input, jobsDir, options.format);
+    return { ...options, input, output };
+  });
+}
+
+/**
+ * Convert all jobs reusing one browser, rendering up to `concurrency`
+ * pages at the same time. Failed jobs don't stop the batch.
+ */
+export async function runBatch(
+  jobs: BatchJob[],
+  options: BatchOptions = {}
+): Promise<BatchEntry[]> {
+  const concurrency = Math.max(1, Math.min(options.concurrency ?? 2, jobs.length));
+  const entries: BatchEntry[] = new Array(jobs.length);
+
+  let browser: Browser;
+  try {
+    browser = await launchBrowser({ handleSignals: !options.signal });
+  } catch (error: any) {
+    throw new ProcessingError(`Failed to launch browser: ${error.message}`);
+  }
+
+  let next = 0;
+  const worker = async () => {
+    while (next < jobs.length && !options.signal?.aborted) {
+      const index = next++;
+      const job = jobs[index];
+      const start = Date.now();
+      options.onJobStart?.(job, index);
+      try {
+        const result = await convert({
+          ...job,
+          style: job.style ? await readStyle(job.style) : undefined,
+          browser,
+          signal: options.signal,
+          onWarning: (warning) => options.onWarning?.(job, warning),
+          onProgress: (progress) => options.onProgress?.(job, progress),
+        });
+        entries[index] = { job, result, time: Date.now() - start };
+      } catch (error) {
+        entries[index] = { job, error, time: Date.now() - start };
+      }
+      options.onJobEnd?.(entries[index], index);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: concurrency }, worker));
+  } finally {
+    try {
+      await browser.close();
+    } catch {
+      // Ignore errors during cleanup
+    }
+  }
+
+  options.signal?.throwIfAborted();
+  return entries;
+}
+
+/**
+ * Format summary table of the batch
+ */
+export function formatSummary(entries: BatchEntry[]): string {
+  const rows = entries.map((entry) => [
+    basename(entry.job.input),
+    entry.result?.outputPath ?? entry.job.output,
+    entry.error ? errorCategory(entry.error).label : 'OK',
+    `${(entry.time / 1000).toFixed(1)}s`,
+    entry.error instanceof Error ? entry.error.message.split('\n')[0] : '',
+  ]);
+  const header = ['Input', 'Output', 'Status', 'Time', 'Details'];
+  const widths = header.map((title, column) => {
+    return Math.max(title.length, ...rows.map((row) => row[column].length));
+  });
+  const format = (row: string[]) => row
+    .map((cell, column) => cell.padEnd(widths[column]))
+    .join('  ')
+    .trimEnd();
+
+  const failed = entries.filter((entry) => entry.error).length;
+  return [
+    format(header),
+    format(widths.map((width) => '-'.repeat(width))),
+    ...rows.map(format),
+    '',
+    `${entries.length - failed} succeeded, ${failed} failed`,
+  ].join('\n');
+}
+
+/**
+ * Throw ValidationError when two jobs would write the same file
+ */
+function checkOutputs(jobs: BatchJob[]): BatchJob[] {
+  const inputs = new Map<string, string>();
+  for (const job of jobs) {
+    const other = inputs.get(job.output);
+    if (other !== undefined) {
+      throw new ValidationError(
+        `Jobs of ${other} and ${job.input} write the same output: ${job.output}`
+      );
+    }
+    inputs.set(job.output, job.input);
+  }
+  return jobs;
+}
+
+function defaultOutput(input: string, outputDir: string, format?: string): string {
+  return join(resolve(outputDir), `${basename(input, extname(input))}.${format ?? 'mp4'}`);
+}
+
+/**
+ * Return job options of manifest entry, paths of style, audio and background
+ * image are resolved from root, audio can be just a path, times can be clock
+ * values. Errors start with the name of the entry.
+ */
+function pickJobOptions(
+  source: Record<string, unknown>,
+  root: string,
+  name: string
+): BatchDefaults {
+  const options: BatchDefaults = {};
+  for (const key of JOB_OPTIONS) {
+    if (source[key] !== undefined) {
+      Object.assign(options, { [key]: source[key] } as Partial<BatchDefaults>);
+    }
+  }
+  for (const key of TIME_OPTIONS) {
+    if (options[key] !== undefined) {
+      options[key] = parseSeconds(options[key], `${name}: ${key}`);
+    }
+  }
+  if (typeof options.style === 'string') {
+    options.style = resolve(root, options.style);
+  }
+  if (typeof options.background === 'string' && isImagePath(options.background)) {
+    options.background = resolve(root, options.background);
+  }
+  if (typeof options.fonts === 'string') {
+    options.fonts = resolve(root, options.fonts);
+  }
+  if (typeof options.audio === 'string') {
+    options.audio = { path: options.audio };
+  }
+  if (typeof options.audio?.path === 'string') {
+    options.audio = { ...options.audio, path: resolve(root, options.audio.path) };
+  }
+  if (options.audio?.start !== undefined) {
+    options.audio = {
+      ...options.audio,
+      start: parseSeconds(options.audio.start, `${name}: audio start`),
+    };
+  }
+  return options;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Return directory of the glob pattern before its first wildcard
+ */
+function patternBase(pattern: string): string {
+  const path = resolve(pattern);
+  const { root } = parse(path);
+  const segments = path.slice(root.length).split(sep);
+  const wildcard = segments.findIndex((segment) => /[*?]/.test(segment));
+  return join(root, ...segments.slice(0, wildcard < 0 ? segments.length - 1 : wildcard));
+}
+
+/**
+ * Return files matching glob pattern, * and ? match inside a path segment
+ * and ** any number of directories
+ */
+async function findFiles(pattern: string): Promise<string[]> {
+  const path = resolve(pattern);
+  const { root } = parse(path);
+  const segments = path.slice(root.length).split(sep).filter(Boolean);
+
+  const walk = async (directory: string, rest: string[]): Promise<string[]> => {
+    if (rest.length === 0) {
+      return (await isFile(directory)) ? [directory] : [];
+    }
+    const [segment, ...next] = rest;
+    if (!/[*?]/.test(segment)) {
+      return walk(join(directory, segment), next);
+    }
+    let entries;
+    try {
+      entries = await readdir(directory, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+    const files: string[] = [];
+    if (segment === '**') {
+      files.push(...await walk(directory, next));
+      for (const entry of entries.filter((entry) => entry.isDirectory())) {
+        files.push(...await walk(join(directory, entry.name), rest));
+      }
+      return files;
+    }
+    const matcher = new RegExp(`^${segment
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.')}$`);
+    for (const entry of entries.filter((entry) => matcher.test(entry.name))) {
+      files.push(...await walk(join(directory, entry.name), next));
+    }
+    return files;
+  };
+
+  return [...new Set(await walk(root, segments))];
+}
+
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+async function readStyle(stylePath: string): Promise<string> {
+  if (!(await fileExists(stylePath))) {
+    throw new ValidationError(`Style file not found: ${stylePath}`);
+  }
+  return readFile(stylePath, 'utf-8');
+}
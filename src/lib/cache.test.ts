@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createCaptureDirectory,
+  findCapture,
+  findOutput,
+  hashFiles,
+  hashKey,
+  pruneCache,
+  storeCapture,
+  storeOutput,
+} from './cache.js';
+import { ConvertResult } from './converter.js';
+
+describe('hashKey', () => {
+  it('ignores the order of object keys', () => {
+    expect(hashKey({ fps: 30, encoder: { crf: 18, codec: 'h264' } }))
+      .toBe(hashKey({ encoder: { codec: 'h264', crf: 18 }, fps: 30 }));
+    expect(hashKey({ fps: 30 })).not.toBe(hashKey({ fps: 60 }));
+  });
+});
+
+describe('render cache', () => {
+  let dir: string;
+  let cache: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'svg-video-cache-'));
+    cache = join(dir, 'cache');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('hashes file content', async () => {
+    await writeFile(join(dir, 'logo.png'), 'png');
+    const hashes = await hashFiles([join(dir, 'logo.png'), join(dir, 'missing.png')]);
+
+    expect(hashes[join(dir, 'logo.png')]).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashes[join(dir, 'missing.png')]).toBeNull();
+  });
+
+  it('finds the output until the file changes', async () => {
+    const outputPath = join(dir, 'out.mp4');
+    await writeFile(outputPath, 'video');
+    const result = {
+      analysis: {},
+      outputPath,
+      format: 'mp4',
+      width: 100,
+      height: 100,
+      duration: 1000,
+      fps: 30,
+      frameCount: 30,
+      fileSize: 5,
+      timings: { analyze: 0, render: 0, encode: 0, cleanup: 0, total: 0 },
+    } as unknown as ConvertResult;
+    await storeOutput(cache, 'key', result);
+
+    expect(await findOutput(cache, 'key')).toEqual({
+      outputPath,
+      format: 'mp4',
+      width: 100,
+      height: 100,
+      duration: 1000,
+      fps: 30,
+      frameCount: 30,
+      fileSize: 5,
+    });
+    expect(await findOutput(cache, 'other')).toBeNull();
+
+    await writeFile(outputPath, 'edited video');
+    expect(await findOutput(cache, 'key')).toBeNull();
+  });
+
+  it('saves recordings', async () => {
+    const captureDirectory = await createCaptureDirectory(cache);
+    await writeFile(join(captureDirectory, 'capture.webm'), 'webm');
+
+    const path = await storeCapture(cache, 'key', captureDirectory, 'capture.webm', {
+      duration: 2000,
+      done: false,
+    });
+
+    expect(path).toBe(join(cache, 'captures', 'key', 'capture.webm'));
+    expect(await findCapture(cache, 'key')).toEqual({ path, duration: 2000, done: false });
+    expect(await findCapture(cache, 'other')).toBeNull();
+  });
+
+  it('prunes old and least recently used entries', async () => {
+    const store = async (key: string, size: number, daysAgo: number) => {
+      const captureDirectory = await createCaptureDirectory(cache);
+      await writeFile(join(captureDirectory, 'capture.webm'), 'x'.repeat(size));
+      await storeCapture(cache, key, captureDirectory, 'capture.webm', { duration: 1000, done: false });
+      const time = new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000);
+      await utimes(join(cache, 'captures', key, 'capture.json'), time, time);
+    };
+    await store('old', 1000, 40);
+    await store('recent', 1000, 2);
+    await store('new', 1000, 0);
+
+    const expired = await pruneCache(cache, { maxAge: 30 * 24 * 60 * 60 * 1000 });
+    expect(expired.removed).toBe(1);
+    expect(await findCapture(cache, 'old')).toBeNull();
+
+    const large = await pruneCache(cache, { maxSize: 1500 });
+    expect(large.removed).toBe(1);
+    expect(await findCapture(cache, 'recent')).toBeNull();
+    expect(await findCapture(cache, 'new')).not.toBeNull();
+    expect(large.size).toBeLessThanOrEqual(1500);
+  });
+});
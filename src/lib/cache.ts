@@ -0,0 +1,254 @@
+import { createHash } from 'crypto';
+import { mkdir, mkdtemp, readdir, readFile, rename, stat, utimes, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+import { ConvertResult } from './converter.js';
+import { deleteDirectory, deleteFile } from './utils.js';
+
+/**
+ * Recording saved in the cache, `path` is a WebM file or a directory of
+ * PNG frames
+ */
+export interface CachedCapture {
+  path: string;
+  duration: number; // in milliseconds, of the recording
+  done: boolean; // svgVideo.done() was called
+}
+
+/**
+ * Output of a conversion, valid while the file has the same size and
+ * modification time
+ */
+interface OutputEntry {
+  outputPath: string;
+  size: number;
+  mtimeMs: number;
+  result: Omit<ConvertResult, 'analysis' | 'timings'>;
+}
+
+export interface PruneOptions {
+  /** Remove entries not used for this many milliseconds */
+  maxAge?: number;
+  /** Remove the least recently used entries until the cache is this many bytes */
+  maxSize?: number;
+}
+
+export interface PruneResult {
+  removed: number;
+  freed: number; // in bytes
+  size: number; // in bytes, of the remaining entries
+}
+
+const CAPTURE_INFO = 'capture.json';
+
+// Captures interrupted by a crash are removed by prune after an hour
+const STAGING_MAX_AGE = 60 * 60 * 1000;
+
+/**
+ * Return directory of the cache: SVG_VIDEO_CACHE, or svg-video in the
+ * XDG cache directory
+ */
+export function defaultCacheDirectory(): string {
+  if (process.env.SVG_VIDEO_CACHE) {
+    return process.env.SVG_VIDEO_CACHE;
+  }
+  return join(process.env.XDG_CACHE_HOME || join(homedir(), '.cache'), 'svg-video');
+}
+
+/**
+ * Return SHA-256 hash of JSON data, object keys are sorted so the order
+ * of options doesn't change the key
+ */
+export function hashKey(data: unknown): string {
+  const json = JSON.stringify(data, (_, value) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)));
+    }
+    return value;
+  });
+  return createHash('sha256').update(json ?? 'undefined').digest('hex');
+}
+
+/**
+ * Return content hashes of files, null for files that don't exist
+ */
+export async function hashFiles(paths: string[]): Promise<Record<string, string | null>> {
+  const hashes: Record<string, string | null> = {};
+  for (const path of paths) {
+    try {
+      hashes[path] = createHash('sha256').update(await readFile(path)).digest('hex');
+    } catch {
+      hashes[path] = null;
+    }
+  }
+  return hashes;
+}
+
+/**
+ * Return result of the conversion with the key if its output still exists
+ * unchanged
+ */
+export async function findOutput(
+  directory: string,
+  key: string
+): Promise<OutputEntry['result'] | null> {
+  const entryPath = join(directory, 'outputs', `${key}.json`);
+  try {
+    const entry: OutputEntry = JSON.parse(await readFile(entryPath, 'utf-8'));
+    const output = await stat(entry.outputPath);
+    if (output.size !== entry.size || output.mtimeMs !== entry.mtimeMs) {
+      return null;
+    }
+    await touch(entryPath);
+    return entry.result;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save result of the conversion, the output file is not copied
+ */
+export async function storeOutput(
+  directory: string,
+  key: string,
+  result: ConvertResult
+): Promise<void> {
+  const { analysis, timings, ...rest } = result;
+  const output = await stat(result.outputPath);
+  const entry: OutputEntry = {
+    outputPath: result.outputPath,
+    size: output.size,
+    mtimeMs: output.mtimeMs,
+    result: rest,
+  };
+  await mkdir(join(directory, 'outputs'), { recursive: true });
+  await writeFile(join(directory, 'outputs', `${key}.json`), JSON.stringify(entry), 'utf-8');
+}
+
+/**
+ * Return recording with the key
+ */
+export async function findCapture(directory: string, key: string): Promise<CachedCapture | null> {
+  const capturePath = join(directory, 'captures', key);
+  try {
+    const infoPath = join(capturePath, CAPTURE_INFO);
+    const info = JSON.parse(await readFile(infoPath, 'utf-8'));
+    await touch(infoPath);
+    return { path: join(capturePath, info.file), duration: info.duration, done: info.done };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create directory inside the cache where a new recording is written,
+ * the recording is saved with storeCapture
+ */
+export async function createCaptureDirectory(directory: string): Promise<string> {
+  await mkdir(join(directory, 'captures'), { recursive: true });
+  return mkdtemp(join(directory, 'captures', '.tmp-'));
+}
+
+/**
+ * Save recording written into the capture directory under the key,
+ * return its new path
+ */
+export async function storeCapture(
+  directory: string,
+  key: string,
+  captureDirectory: string,
+  file: string,
+  info: Omit<CachedCapture, 'path'>
+): Promise<string> {
+  const capturePath = join(directory, 'captures', key);
+  await writeFile(
+    join(captureDirectory, CAPTURE_INFO),
+    JSON.stringify({ file, ...info }),
+    'utf-8'
+  );
+  try {
+    await rename(captureDirectory, capturePath);
+  } catch {
+    // Saved by another conversion at the same time
+    await deleteDirectory(captureDirectory);
+  }
+  return join(capturePath, file);
+}
+
+/**
+ * Remove cached outputs and recordings not used for maxAge, then the least
+ * recently used ones until the cache is smaller than maxSize
+ */
+export async function pruneCache(
+  directory: string,
+  options: PruneOptions = {}
+): Promise<PruneResult> {
+  const now = Date.now();
+  const entries: { path: string; used: number; size: number; directory: boolean }[] = [];
+  const result: PruneResult = { removed: 0, freed: 0, size: 0 };
+  const remove = async (entry: typeof entries[number]) => {
+    await (entry.directory ? deleteDirectory(entry.path) : deleteFile(entry.path));
+    result.removed++;
+    result.freed += entry.size;
+  };
+
+  for (const name of await list(join(directory, 'outputs'))) {
+    const path = join(directory, 'outputs', name);
+    const info = await stat(path);
+    entries.push({ path, used: info.mtimeMs, size: info.size, directory: false });
+  }
+  for (const name of await list(join(directory, 'captures'))) {
+    const path = join(directory, 'captures', name);
+    if (name.startsWith('.tmp-')) {
+      // Recording in progress or interrupted
+      const info = await stat(path);
+      if (now - info.mtimeMs > STAGING_MAX_AGE) {
+        await remove({ path, used: info.mtimeMs, size: await directorySize(path), directory: true });
+      }
+      continue;
+    }
+    const info = await stat(join(path, CAPTURE_INFO)).catch(() => stat(path));
+    entries.push({ path, used: info.mtimeMs, size: await directorySize(path), directory: true });
+  }
+
+  // Least recently used first
+  entries.sort((a, b) => a.used - b.used);
+  let size = entries.reduce((total, entry) => total + entry.size, 0);
+  for (const entry of entries) {
+    const expired = options.maxAge !== undefined && now - entry.used > options.maxAge;
+    const tooLarge = options.maxSize !== undefined && size > options.maxSize;
+    if (expired || tooLarge) {
+      await remove(entry);
+      size -= entry.size;
+    }
+  }
+  result.size = size;
+  return result;
+}
+
+/**
+ * Mark entry of the cache as used
+ */
+async function touch(path: string): Promise<void> {
+  const now = new Date();
+  await utimes(path, now, now);
+}
+
+async function list(directory: string): Promise<string[]> {
+  try {
+    return await readdir(directory);
+  } catch {
+    return [];
+  }
+}
+
+async function directorySize(directory: string): Promise<number> {
+  let size = 0;
+  for (const entry of await readdir(directory, { withFileTypes: true, recursive: true })) {
+    if (entry.isFile()) {
+      size += (await stat(join(entry.parentPath, entry.name))).size;
+    }
+  }
+  return size;
+}
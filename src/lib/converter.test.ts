@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { convert } from './converter.js';
+import { ValidationError } from './utils.js';
+
+const STATIC_SVG = '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"/>';
+const ANIMATED_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10">
+  <rect width="10" height="10"><animate attributeName="x" to="5" dur="4s"/></rect>
+</svg>`;
+
+describe('convert', () => {
+  it('throws ValidationError when the input is missing', async () => {
+    await expect(convert({ input: 'missing.svg', output: 'output.mp4' }))
+      .rejects.toThrow(ValidationError);
+  });
+
+  it('throws ValidationError for SVG source without animations', async () => {
+    const output = join(tmpdir(), 'svg-video-test', 'frame_%05d.png');
+    const messages: string[] = [];
+
+    await expect(convert({
+      svg: STATIC_SVG,
+      output,
+      onLog: (message) => messages.push(message),
+    })).rejects.toThrow('No animations detected in SVG');
+    expect(messages).toContain('SVG dimensions: 10x10');
+  });
+
+  it('rejects unsupported options before rendering', async () => {
+    await expect(convert({ svg: STATIC_SVG, output: 'output.mp4', transparent: true }))
+      .rejects.toThrow('Transparent output is not supported by MP4');
+    await expect(convert({ svg: STATIC_SVG, output: 'output.gif', audio: { path: 'music.mp3' } }))
+      .rejects.toThrow('Audio is not supported by GIF');
+    await expect(convert({ svg: STATIC_SVG, output: 'output.mp4', padColor: 'brand' }))
+      .rejects.toThrow('Invalid pad color: brand (expected a CSS color)');
+  });
+
+  it('rejects quality presets the output format has no settings for', async () => {
+    await expect(convert({ svg: STATIC_SVG, output: 'output.gif', qualityPreset: 'web' }))
+      .rejects.toThrow('Quality preset web is not supported by GIF');
+    await expect(convert({
+      svg: STATIC_SVG,
+      output: 'output.mov',
+      preset: 'youtube',
+      qualityPreset: 'web',
+    })).rejects.toThrow('Quality preset web is not available for MOV');
+    await expect(convert({ svg: STATIC_SVG, output: 'frames/', qualityPreset: 'archive' }))
+      .rejects.toThrow('Quality preset archive is not supported by image sequences');
+  });
+
+  it('rejects invalid loop repetition', async () => {
+    await expect(convert({ svg: STATIC_SVG, output: 'output.mp4', loops: 2, length: 10 }))
+      .rejects.toThrow('Loop count and length can\'t be combined');
+    await expect(convert({ svg: STATIC_SVG, output: 'output.mp4', loops: 1.5 }))
+      .rejects.toThrow('Loop count must be a whole number');
+    await expect(convert({ svg: STATIC_SVG, output: 'frames/', length: 15 }))
+      .rejects.toThrow('Image sequence output can\'t repeat the loop');
+  });
+
+  it('validates the time window against the animation', async () => {
+    const output = join(tmpdir(), 'svg-video-test', 'window', 'frame_%05d.png');
+
+    await expect(convert({ svg: ANIMATED_SVG, output, start: 5 }))
+      .rejects.toThrow('Start (5s) is not before the end of the animation (4s)');
+    await expect(convert({ svg: ANIMATED_SVG, output, start: 1, end: 4.5 }))
+      .rejects.toThrow('End (4.5s) is after the end of the animation (4s)');
+    await expect(convert({ svg: ANIMATED_SVG, output, start: 3, end: 2 }))
+      .rejects.toThrow('End (2s) must be after start (3s)');
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(convert({ svg: STATIC_SVG, output: 'output.mp4', signal: controller.signal }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,882 @@
+import { mkdir, readFile, stat, writeFile } from 'fs/promises';
+import { basename, join, resolve } from 'path';
+import { Browser } from 'puppeteer';
+import {
+  analyzeSVGContent,
+  checkResources,
+  loadedResources,
+  localReferences,
+  SVGAnalysis,
+} from './svg-analyzer.js';
+import { bundleResources } from './resources.js';
+import {
+  generateHTMLFile,
+  chooseRenderMode,
+  RenderMode,
+  RENDER_MODES,
+} from './template-generator.js';
+import {
+  recordAnimation,
+  CaptureMode,
+  CAPTURE_MODES,
+  FRAME_PATTERN,
+  FIRST_FRAME,
+  frameCount,
+  checkScale,
+  RecordingResult,
+} from './recorder.js';
+import { sequenceOutput, writeSequenceInfo } from './image-sequence.js';
+import { createWorkspace, Workspace } from './workspace.js';
+import { AudioOptions, AudioTrack, playableLength, prepareAudio } from './audio.js';
+import { Background, parseBackground, parseColor } from './background.js';
+import {
+  EncoderOptions,
+  EncoderPreset,
+  ENCODER_PRESETS,
+  recordingBitrate,
+  resolveEncoder,
+} from './encoder.js';
+import { Anchor, computeFit, FitMode, validateFit } from './fit.js';
+import { OutputPresetName, resolvePreset } from './presets.js';
+import {
+  createCaptureDirectory,
+  defaultCacheDirectory,
+  findCapture,
+  findOutput,
+  hashFiles,
+  hashKey,
+  storeCapture,
+  storeOutput,
+} from './cache.js';
+import {
+  processVideo,
+  resizeFrames,
+  crossfadeLoop,
+  checkFFmpeg,
+  formatFromPath,
+  OutputFormat,
+  OUTPUT_FORMATS,
+  DITHER_MODES,
+  checkAlphaSupport,
+  checkAudioSupport,
+} from './video-processor.js';
+import {
+  fileExists,
+  deleteDirectory,
+  validatePositiveNumber,
+  ValidationError,
+  version,
+} from './utils.js';
+
+/**
+ * Step of the conversion
+ */
+export type ConvertPhase = 'analyze' | 'render' | 'encode' | 'cleanup';
+
+export interface ConvertProgress {
+  phase: ConvertPhase;
+  percent: number;
+  /** Position on the animation timeline in milliseconds (render phase only) */
+  time?: number;
+  /** Index of the rendered frame (render phase only) */
+  frame?: number;
+}
+
+export interface ConvertOptions {
+  /** Path to the SVG file */
+  input?: string;
+  /** SVG source code, used instead of input */
+  svg?: string;
+  /** Output video file, directory or frame_%05d.png pattern of an image sequence */
+  output: string;
+  /** Width in pixels (default: from SVG, or from height keeping the aspect ratio) */
+  width?: number;
+  /** Height in pixels (default: from SVG, or from width keeping the aspect ratio) */
+  height?: number;
+  /** How the SVG fills the output size (default: contain) */
+  fit?: FitMode;
+  /** Position of the SVG when it doesn't fill the output exactly (default: center) */
+  anchor?: Anchor;
+  /** Duration in seconds (default: detected from the animations) */
+  duration?: number;
+  /** Time on the animation timeline where recording starts, in seconds (default: 0) */
+  start?: number;
+  /** Time on the animation timeline where recording ends, in seconds (default: end of the animation) */
+  end?: number;
+  /** Longest recording of SVGs that end it with svgVideo.done(), in seconds (default: 60) */
+  maxDuration?: number;
+  /** Number of times the loop of a looping SVG is repeated in the output */
+  loops?: number;
+  /** Length of the output in seconds, the loop of a looping SVG is repeated and trimmed */
+  length?: number;
+  /** Seconds of the end of the loop blended into its beginning, for loops that aren't seamless */
+  crossfade?: number;
+  /** Frame rate (default: 30) */
+  fps?: number;
+  /** Supersampling, the page is rendered 1-4 times larger and downscaled (default: 1) */
+  scale?: number;
+  /** Extra CSS injected into the page */
+  style?: string;
+  /** Capture mode (default: realtime, frames for transparent output and image sequences) */
+  capture?: CaptureMode;
+  /** How the SVG is embedded in the page (default: inline for SVGs with scripts or external resources, img otherwise) */
+  render?: RenderMode;
+  /** Output format (default: from output extension or mp4) */
+  format?: OutputFormat;
+  /** Video encoder settings of MP4, WebM and MOV output */
+  encoder?: EncoderOptions;
+  /**
+   * Output preset (e.g. instagram-square): size, frame rate and quality
+   * preset of a publishing target, explicit options override them
+   */
+  preset?: OutputPresetName;
+  /** Named encoder settings, overrides the quality of the output preset */
+  qualityPreset?: EncoderPreset;
+  /** Dithering algorithm of GIF output */
+  dither?: string;
+  /** Keep transparent background */
+  transparent?: boolean;
+  /** Background behind the animation: CSS color, CSS gradient or path to an image */
+  background?: string;
+  /**
+   * CSS color of the bars added when the SVG is letterboxed (default: color
+   * of the background, first color of a gradient, black for images)
+   */
+  padColor?: string;
+  /** Soundtrack of the video (MP4, WebM and MOV only) */
+  audio?: AudioOptions;
+  /**
+   * Embed local images, fonts, stylesheets and <use> references of the SVG
+   * as data URIs, missing files are errors
+   */
+  inlineResources?: boolean;
+  /** Directory of font files used for the font-family names of the SVG */
+  fonts?: string;
+  /**
+   * Reuse the output and the recording of earlier conversions with the same
+   * SVG, assets and options (default: false), image sequences are not cached
+   */
+  cache?: boolean;
+  /** Directory of the cache (default: $SVG_VIDEO_CACHE or ~/.cache/svg-video) */
+  cacheDirectory?: string;
+  /**
+   * Keep the generated page, the recording and the ffmpeg log in the
+   * temporary directory of the conversion, the cache is not used
+   */
+  keepTemp?: boolean;
+  /** Cancels the conversion */
+  signal?: AbortSignal;
+  /** Shared browser, a new one is launched for the conversion if not set */
+  browser?: Browser;
+  /** Status messages */
+  onLog?: (message: string) => void;
+  /** Problems found in the SVG that don't stop the conversion */
+  onWarning?: (warning: string) => void;
+  onProgress?: (progress: ConvertProgress) => void;
+}
+
+export interface ConvertResult {
+  analysis: SVGAnalysis;
+  /** Output file, or file name pattern of image sequence frames */
+  outputPath: string;
+  format: OutputFormat | 'png-sequence';
+  width: number;
+  height: number;
+  duration: number; // in milliseconds, of the output
+  fps: number;
+  frameCount: number;
+  /** Size of the output file in bytes, not set for image sequences */
+  fileSize?: number;
+  /** JSON sidecar of an image sequence */
+  sequenceInfoPath?: string;
+  /** Directory of the kept temporary files (keepTemp only) */
+  tempDirectory?: string;
+  /** Time spent in every phase, in milliseconds */
+  timings: {
+    analyze: number;
+    render: number;
+    encode: number;
+    cleanup: number;
+    total: number;
+  };
+}
+
+/**
+ * Default maximum length of animations that signal their end, in seconds
+ */
+export const DEFAULT_MAX_DURATION = 60;
+
+/**
+ * Convert SVG animation into video, animated image or PNG image sequence
+ */
+export async function convert(options: ConvertOptions): Promise<ConvertResult> {
+  const { signal } = options;
+  const log = (message: string) => options.onLog?.(message);
+  const progress = (phase: ConvertPhase, percent: number, extra?: Partial<ConvertProgress>) => {
+    options.onProgress?.({ phase, percent, ...extra });
+  };
+
+  const startTime = Date.now();
+  const timings = { analyze: 0, render: 0, encode: 0, cleanup: 0, total: 0 };
+  // Recordings written into the cache, deleted unless they are complete
+  const tempDirectories: string[] = [];
+  let workspace: Workspace | null = null;
+
+  try {
+    signal?.throwIfAborted();
+
+    if (!options.input && options.svg === undefined) {
+      throw new ValidationError('Either input path or SVG source is required');
+    }
+    if (!options.output) {
+      throw new ValidationError('Output path is required');
+    }
+
+    const outputPath = resolve(options.output);
+
+    // Directory or out/frame_%05d.png pattern exports PNG frames instead of video
+    const sequence = await sequenceOutput(options.output);
+
+    const transparent = options.transparent ?? false;
+    // Screen recording can't carry alpha, transparent output and
+    // image sequences need frame capture
+    const capture = options.capture ?? (transparent || sequence ? 'frames' : 'realtime');
+
+    if (!CAPTURE_MODES.includes(capture)) {
+      throw new ValidationError(
+        `Invalid capture mode: ${capture} (expected ${CAPTURE_MODES.join(' or ')})`
+      );
+    }
+
+    // Output format from options or from the output file extension
+    const format = options.format ?? formatFromPath(outputPath) ?? 'mp4';
+    if (!OUTPUT_FORMATS.includes(format)) {
+      throw new ValidationError(
+        `Invalid output format: ${format} (expected one of ${OUTPUT_FORMATS.join(', ')})`
+      );
+    }
+
+    if (transparent && capture !== 'frames') {
+      throw new ValidationError('Transparent output requires --capture frames');
+    }
+    if (sequence && capture !== 'frames') {
+      throw new ValidationError('Image sequence output requires --capture frames');
+    }
+    if (transparent && !sequence) {
+      checkAlphaSupport(format);
+    }
+    if (options.audio) {
+      if (sequence) {
+        throw new ValidationError('Image sequence output can\'t have audio');
+      }
+      checkAudioSupport(format);
+    }
+
+    // Repeating the loop
+    if (options.loops !== undefined && options.length !== undefined) {
+      throw new ValidationError('Loop count and length can\'t be combined');
+    }
+    if (options.loops !== undefined && !Number.isInteger(Number(options.loops))) {
+      throw new ValidationError(`Loop count must be a whole number, got: ${options.loops}`);
+    }
+    const crossfadeMs = options.crossfade !== undefined
+      ? validatePositiveNumber(options.crossfade, 'Crossfade') * 1000
+      : 0;
+    const repeat = options.loops !== undefined || options.length !== undefined || crossfadeMs > 0;
+    if (sequence && repeat) {
+      throw new ValidationError('Image sequence output can\'t repeat the loop');
+    }
+
+    if (options.render !== undefined && !RENDER_MODES.includes(options.render)) {
+      throw new ValidationError(
+        `Invalid render mode: ${options.render} (expected one of ${RENDER_MODES.join(', ')})`
+      );
+    }
+
+    // Page background, also used for the padding of the video
+    let background: Background | undefined;
+    if (options.background !== undefined) {
+      if (transparent) {
+        throw new ValidationError('Background can\'t be used with transparent output');
+      }
+      background = await parseBackground(options.background);
+    }
+    let padColor = background?.padColor;
+    if (options.padColor !== undefined) {
+      if (transparent) {
+        throw new ValidationError('Pad color can\'t be used with transparent output');
+      }
+      padColor = parseColor(options.padColor) ?? undefined;
+      if (padColor === undefined) {
+        throw new ValidationError(`Invalid pad color: ${options.padColor} (expected a CSS color)`);
+      }
+    }
+
+    const fit = options.fit ?? 'contain';
+    const anchor = options.anchor ?? 'center';
+    validateFit(fit, anchor);
+
+    // Output presets also set the quality of formats that have it, an explicit
+    // quality preset must be available for the format
+    const preset = options.preset !== undefined ? resolvePreset(options.preset) : undefined;
+    const encoderPreset = options.qualityPreset ??
+      (preset && !sequence && ENCODER_PRESETS[preset.encoder][format] ? preset.encoder : undefined);
+
+    // Codec, quality and bitrate of the video
+    const encoderOptions = Object.values(options.encoder ?? {}).some((value) => value !== undefined);
+    if (sequence && encoderOptions) {
+      throw new ValidationError('Encoder options are not supported by image sequences');
+    }
+    if (sequence && encoderPreset) {
+      throw new ValidationError(`Quality preset ${encoderPreset} is not supported by image sequences`);
+    }
+    const encoder = sequence
+      ? {}
+      : resolveEncoder(format, options.encoder, encoderPreset, transparent);
+
+    const { dither } = options;
+    if (dither !== undefined && !DITHER_MODES.includes(dither)) {
+      throw new ValidationError(
+        `Invalid dither mode: ${dither} (expected one of ${DITHER_MODES.join(', ')})`
+      );
+    }
+
+    // Read SVG, source code is saved so the browser can load it
+    let inputPath: string;
+    // Generated page, recording and other intermediate files
+    workspace = await createWorkspace({ keep: options.keepTemp });
+    // ffmpeg commands and their output, saved for debugging only
+    const logPath = workspace.keep ? workspace.path('ffmpeg.log') : undefined;
+
+    let svgContent: string;
+    if (options.input) {
+      inputPath = resolve(options.input);
+      if (!(await fileExists(inputPath))) {
+        throw new ValidationError(`Input file not found: ${inputPath}`);
+      }
+      svgContent = await readFile(inputPath, 'utf-8');
+    } else {
+      svgContent = options.svg!;
+      inputPath = workspace.path('input.svg');
+      await writeFile(inputPath, svgContent, 'utf-8');
+    }
+
+    // Self-contained copy of the SVG, relative paths are resolved against
+    // the original file
+    if (options.inlineResources || options.fonts) {
+      const bundle = await bundleResources(svgContent, inputPath, {
+        inline: options.inlineResources,
+        fonts: options.fonts && resolve(options.fonts),
+      });
+      for (const warning of bundle.warnings) {
+        options.onWarning?.(warning);
+      }
+      svgContent = bundle.svg;
+      inputPath = workspace.path('bundle.svg');
+      await writeFile(inputPath, svgContent, 'utf-8');
+      if (bundle.inlined > 0) {
+        log(`Inlined ${bundle.inlined} external resource${bundle.inlined === 1 ? '' : 's'}`);
+      }
+    }
+
+    // Frames of supersampled image sequences are downscaled with FFmpeg
+    const scale = Number(options.scale ?? 1);
+
+    // Check if FFmpeg is installed
+    if (!sequence || scale > 1) {
+      log('Checking system dependencies...');
+      await checkFFmpeg(encoder.codec ? [encoder.codec] : []);
+    }
+
+    // Analyze SVG
+    log('Analyzing SVG...');
+    progress('analyze', 0);
+    const svgAnalysis = analyzeSVGContent(svgContent);
+    await checkResources(svgAnalysis, inputPath);
+    log(`SVG dimensions: ${svgAnalysis.dimensions.width}x${svgAnalysis.dimensions.height}`);
+    for (const warning of svgAnalysis.warnings) {
+      options.onWarning?.(warning);
+    }
+
+    // Scripts and external resources don't work in <img>
+    const renderMode = options.render ?? chooseRenderMode(svgAnalysis);
+    const features = [
+      svgAnalysis.hasScripts ? 'scripts' : null,
+      loadedResources(svgAnalysis.resources).length > 0 ? 'external resources' : null,
+    ].filter(Boolean).join(' and ');
+    if (features && renderMode === 'img') {
+      options.onWarning?.(`SVG has ${features} that don't work in img render mode`);
+    } else if (renderMode !== 'img') {
+      log(`Render mode: ${renderMode}${options.render ? '' : ` (SVG has ${features})`}`);
+    }
+
+    // Determine dimensions, a single one keeps the aspect ratio of the SVG
+    const source = svgAnalysis.dimensions;
+    const width = options.width || preset?.width;
+    const height = options.height || preset?.height;
+    const finalWidth = validatePositiveNumber(
+      width || (height ? Math.round(height * source.width / source.height) : source.width),
+      'Width'
+    );
+    const finalHeight = validatePositiveNumber(
+      height || (width ? Math.round(width * source.height / source.width) : source.height),
+      'Height'
+    );
+    const box = computeFit(source, { width: finalWidth, height: finalHeight }, fit, anchor);
+
+    // Determine duration
+    let durationMs: number;
+    let startMs = 0;
+    // Recording is one seamless loop that can be repeated
+    let looping = false;
+    // Scripts of the SVG say when the animation starts and ends
+    const signals = renderMode === 'img'
+      ? { ready: false, done: false }
+      : svgAnalysis.signals;
+    const untilDone = signals.done && !options.duration;
+
+    if (options.duration) {
+      // User provided duration
+      const durationSeconds = validatePositiveNumber(options.duration, 'Duration');
+      durationMs = durationSeconds * 1000;
+      log(`Using manual duration: ${durationSeconds}s`);
+    } else if (untilDone) {
+      const maxSeconds = validatePositiveNumber(
+        options.maxDuration ?? DEFAULT_MAX_DURATION,
+        'Maximum duration'
+      );
+      durationMs = maxSeconds * 1000;
+      log(`Recording until the animation calls svgVideo.done() (at most ${maxSeconds}s)`);
+    } else if (svgAnalysis.hasInfiniteAnimations) {
+      // Check if we detected a loop duration
+      if (svgAnalysis.loopDuration !== null && svgAnalysis.loopDuration > 0) {
+        durationMs = svgAnalysis.loopDuration;
+        startMs = svgAnalysis.loopStart;
+        looping = true;
+        log(`Detected infinite animation with loop duration: ${(durationMs / 1000).toFixed(2)}s`);
+        if (startMs > 0) {
+          log(`All loops are running from ${(startMs / 1000).toFixed(2)}s`);
+        }
+        log('Recording one complete loop...');
+      } else {
+        throw new ValidationError(
+          'SVG contains infinite animations without detectable loop duration. Please specify duration with --duration option.'
+        );
+      }
+    } else if (!svgAnalysis.hasAnimations) {
+      throw new ValidationError(
+        'No animations detected in SVG. Please specify duration with --duration option.'
+      );
+    } else if (svgAnalysis.duration === null) {
+      throw new ValidationError(
+        'Unable to determine animation duration. Please specify duration with --duration option.'
+      );
+    } else {
+      durationMs = svgAnalysis.duration;
+      log(`Detected animation duration: ${(durationMs / 1000).toFixed(2)}s`);
+    }
+
+    // Record only a window of the timeline, a finite animation can't be
+    // recorded past its end
+    if (options.start !== undefined || options.end !== undefined) {
+      if (options.duration && options.end !== undefined) {
+        throw new ValidationError('Duration and end can\'t be combined');
+      }
+      if (repeat) {
+        throw new ValidationError('Repeating the loop can\'t be combined with start and end');
+      }
+      const animationEnd = options.duration || untilDone || svgAnalysis.hasInfiniteAnimations
+        ? null
+        : svgAnalysis.duration;
+      const windowStart = options.start !== undefined
+        ? timelinePosition(options.start, 'Start')
+        : startMs;
+      const windowEnd = options.end !== undefined
+        ? timelinePosition(options.end, 'End')
+        : animationEnd ?? windowStart + durationMs;
+      if (animationEnd !== null && windowStart >= animationEnd) {
+        throw new ValidationError(
+          `Start (${formatSeconds(windowStart)}) is not before the end of the animation ` +
+          `(${formatSeconds(animationEnd)})`
+        );
+      }
+      if (animationEnd !== null && windowEnd > animationEnd) {
+        throw new ValidationError(
+          `End (${formatSeconds(windowEnd)}) is after the end of the animation ` +
+          `(${formatSeconds(animationEnd)})`
+        );
+      }
+      if (windowEnd <= windowStart) {
+        throw new ValidationError(
+          `End (${formatSeconds(windowEnd)}) must be after start (${formatSeconds(windowStart)})`
+        );
+      }
+      startMs = windowStart;
+      durationMs = windowEnd - windowStart;
+      // Part of a loop doesn't repeat seamlessly
+      looping = false;
+      log(`Recording from ${formatSeconds(windowStart)} to ${formatSeconds(windowEnd)}`);
+    }
+
+    // Validate FPS
+    const finalFps = validatePositiveNumber(options.fps ?? preset?.fps ?? 30, 'FPS');
+
+    for (const warning of checkScale(finalWidth, finalHeight, scale, capture)) {
+      options.onWarning?.(warning);
+    }
+
+    // The recorded loop is repeated at the encode stage, crossfade makes
+    // it shorter
+    if (repeat && !looping) {
+      throw new ValidationError('Repeating the loop requires a looping SVG animation');
+    }
+    if (crossfadeMs * 2 > durationMs) {
+      throw new ValidationError(
+        `Crossfade can't be longer than half of the loop (${(durationMs / 2000).toFixed(2)}s)`
+      );
+    }
+    const loopMs = durationMs - crossfadeMs;
+    let loops = 1;
+    let outputMs = loopMs;
+    if (options.loops !== undefined) {
+      loops = validatePositiveNumber(options.loops, 'Loop count');
+      outputMs = loops * loopMs;
+      log(`Repeating the loop ${loops} times (${(outputMs / 1000).toFixed(2)}s)`);
+    } else if (options.length !== undefined) {
+      outputMs = validatePositiveNumber(options.length, 'Length') * 1000;
+      loops = Math.ceil(outputMs / loopMs);
+      log(`Repeating the loop ${loops} times and trimming to ${(outputMs / 1000).toFixed(2)}s`);
+    }
+
+    // Audio is trimmed to the length of the video, or the loop is repeated
+    // to the length of the audio
+    let audio: AudioTrack | undefined;
+    if (options.audio) {
+      if (options.audio.extend && !looping) {
+        throw new ValidationError(
+          'Extending the video to the length of the audio requires a looping SVG animation'
+        );
+      }
+      if (options.audio.extend && (options.loops !== undefined || options.length !== undefined)) {
+        throw new ValidationError(
+          'Extending the video to the length of the audio can\'t be combined with loop count or length'
+        );
+      }
+      audio = await prepareAudio(options.audio);
+      const audioMs = playableLength(audio);
+      log(`Audio length: ${(audioMs / 1000).toFixed(2)}s`);
+      if (options.audio.extend && audioMs > loopMs) {
+        loops = Math.ceil(audioMs / loopMs);
+        outputMs = audioMs;
+        log(`Repeating the loop ${loops} times to match the audio`);
+      }
+    }
+
+    progress('analyze', 100);
+    timings.analyze = Date.now() - startTime;
+    signal?.throwIfAborted();
+
+    // Conversions with the same inputs reuse the output, or the recording
+    // when only the encoding changed
+    // Kept temporary files have a fresh recording
+    const cacheDirectory = options.cache && !sequence && !options.keepTemp
+      ? resolve(options.cacheDirectory ?? defaultCacheDirectory())
+      : null;
+    // Bitrate grows with the number of rendered pixels
+    const videoBitrate = Math.round(recordingBitrate(encoder) * scale * scale);
+    let captureKey = '';
+    let outputKey = '';
+    if (cacheDirectory) {
+      captureKey = hashKey({
+        version: version(),
+        svg: hashKey(svgContent),
+        assets: await hashFiles(localReferences(inputPath, svgAnalysis.externalReferences)),
+        style: options.style,
+        background: background?.css,
+        backgroundImage: background?.type === 'image'
+          ? await hashFiles([resolve(options.background!.trim())])
+          : null,
+        renderMode,
+        width: finalWidth,
+        height: finalHeight,
+        box,
+        fps: finalFps,
+        scale,
+        capture,
+        transparent,
+        start: startMs,
+        duration: durationMs,
+        untilDone,
+        ready: signals.ready,
+        // Realtime recording is compressed
+        videoBitrate: capture === 'realtime' ? videoBitrate : null,
+      });
+      outputKey = hashKey({
+        capture: captureKey,
+        outputPath,
+        format,
+        dither,
+        encoder,
+        padColor,
+        fit,
+        anchor,
+        loops,
+        length: outputMs,
+        crossfade: crossfadeMs,
+        audio: audio ? { ...audio, file: await hashFiles([audio.path]) } : null,
+      });
+      const cached = await findOutput(cacheDirectory, outputKey);
+      if (cached) {
+        log(`Output is up to date (cached): ${outputPath}`);
+        return { ...cached, analysis: svgAnalysis, timings };
+      }
+    }
+
+    const renderStart = Date.now();
+    const cachedCapture = cacheDirectory ? await findCapture(cacheDirectory, captureKey) : null;
+    let tempVideoPath: string;
+    let recording: RecordingResult;
+    if (cachedCapture) {
+      log('Using cached recording');
+      tempVideoPath = cachedCapture.path;
+      recording = cachedCapture;
+    } else {
+      // Generate temporary HTML file
+      log('Generating HTML...');
+      const tempHtmlPath = workspace.path('page.html');
+      await generateHTMLFile(
+        {
+          svgPath: inputPath,
+          width: finalWidth,
+          height: finalHeight,
+          style: options.style,
+          background: background?.css,
+          mode: renderMode,
+          svgContent,
+          box,
+        },
+        tempHtmlPath
+      );
+
+      // Record animation, realtime recording waits for the start of SVGs it
+      // can't seek (img mode and scripts)
+      const durationSeconds = durationMs / 1000;
+      if (capture === 'frames') {
+        log(`Capturing animation frames (${durationSeconds.toFixed(1)}s duration)...`);
+      } else {
+        const waitMs = renderMode === 'img' || svgAnalysis.hasScripts ? startMs : 0;
+        const estimate = formatTime((waitMs + durationMs) / 1000);
+        log(`Recording animation (${durationSeconds.toFixed(1)}s duration, estimated time: ~${estimate})...`);
+      }
+
+      // Frames mode writes numbered PNG files into the workspace, or into the
+      // output directory of an image sequence that doesn't need downscaling;
+      // a cached recording is written into the cache
+      let captureDirectory: string | null = null;
+      if (cacheDirectory) {
+        captureDirectory = await createCaptureDirectory(cacheDirectory);
+        tempDirectories.push(captureDirectory);
+        tempVideoPath = join(captureDirectory, capture === 'frames' ? 'frames' : 'capture.webm');
+      } else if (sequence && scale === 1) {
+        tempVideoPath = sequence.directory;
+      } else if (capture === 'frames') {
+        tempVideoPath = await workspace.createDirectory('frames');
+      } else {
+        tempVideoPath = workspace.path('capture.webm');
+      }
+
+      progress('render', 0);
+      recording = await recordAnimation(tempHtmlPath, tempVideoPath, {
+        width: finalWidth,
+        height: finalHeight,
+        duration: durationMs,
+        fps: finalFps,
+        scale,
+        videoBitrate,
+        capture,
+        start: startMs,
+        transparent,
+        framePattern: sequence && scale === 1 ? sequence.pattern : undefined,
+        signal,
+        browser: options.browser,
+        waitForReady: signals.ready,
+        untilDone,
+      }, (percent) => progress('render', percent, {
+        time: startMs + Math.round(durationMs * percent / 100),
+        frame: Math.round(frameCount(durationMs, finalFps) * percent / 100),
+      }));
+
+      if (captureDirectory) {
+        tempVideoPath = await storeCapture(
+          cacheDirectory!,
+          captureKey,
+          captureDirectory,
+          basename(tempVideoPath),
+          recording
+        );
+      }
+      log('Recording complete!');
+    }
+
+    if (untilDone) {
+      if (recording.done) {
+        log(`Animation ended after ${(recording.duration / 1000).toFixed(2)}s`);
+      } else {
+        options.onWarning?.(
+          `Animation did not call svgVideo.done() within ${durationMs / 1000}s, recording stopped`
+        );
+      }
+      durationMs = recording.duration;
+      outputMs = durationMs;
+    }
+    timings.render = Date.now() - renderStart;
+
+    const result: ConvertResult = {
+      analysis: svgAnalysis,
+      outputPath: sequence ? join(sequence.directory, sequence.pattern) : outputPath,
+      format: sequence ? 'png-sequence' : format,
+      width: finalWidth,
+      height: finalHeight,
+      duration: outputMs,
+      fps: finalFps,
+      frameCount: frameCount(outputMs, finalFps),
+      timings,
+      tempDirectory: workspace.keep ? workspace.directory : undefined,
+    };
+
+    if (sequence) {
+      if (scale > 1) {
+        const encodeStart = Date.now();
+        log('Downscaling frames...');
+        progress('encode', 0);
+        await mkdir(sequence.directory, { recursive: true });
+        await resizeFrames(
+          join(tempVideoPath, FRAME_PATTERN),
+          join(sequence.directory, sequence.pattern),
+          {
+            width: finalWidth,
+            height: finalHeight,
+            inputFps: finalFps,
+            scale,
+            alpha: transparent,
+            padColor,
+            fit,
+            anchor,
+            signal,
+            logPath,
+          },
+          (percent) => progress('encode', percent)
+        );
+        timings.encode = Date.now() - encodeStart;
+      }
+      result.sequenceInfoPath = await writeSequenceInfo(sequence.directory, {
+        fps: finalFps,
+        frameCount: frameCount(durationMs, finalFps),
+        firstFrame: FIRST_FRAME,
+        pattern: sequence.pattern,
+        width: finalWidth,
+        height: finalHeight,
+        duration: durationMs,
+        source: svgAnalysis.dimensions,
+      });
+    } else {
+      signal?.throwIfAborted();
+
+      // Process video (convert to the output format)
+      const encodeStart = Date.now();
+      log(`Converting to ${format.toUpperCase()}...`);
+      progress('encode', 0);
+      let videoInput = capture === 'frames'
+        ? join(tempVideoPath, FRAME_PATTERN)
+        : tempVideoPath;
+      let framesInput = capture === 'frames';
+      // Part of the encode progress spent by the crossfade
+      let crossfadeShare = 0;
+      if (crossfadeMs > 0) {
+        log(`Crossfading ${(crossfadeMs / 1000).toFixed(2)}s of the loop end into its start...`);
+        crossfadeShare = 20;
+        const crossfadeDirectory = await workspace.createDirectory('crossfade');
+        await crossfadeLoop(
+          videoInput,
+          join(crossfadeDirectory, FRAME_PATTERN),
+          { duration: durationMs, crossfade: crossfadeMs, fps: finalFps },
+          { inputFps: framesInput ? finalFps : undefined, alpha: transparent, signal, logPath },
+          (percent) => progress('encode', Math.round(percent * crossfadeShare / 100))
+        );
+        videoInput = join(crossfadeDirectory, FRAME_PATTERN);
+        framesInput = true;
+      }
+      await processVideo(videoInput, outputPath, {
+        width: finalWidth,
+        height: finalHeight,
+        inputFps: framesInput ? finalFps : undefined,
+        scale,
+        format,
+        // Animated images of looping SVGs repeat forever
+        loop: svgAnalysis.hasInfiniteAnimations,
+        dither,
+        encoder,
+        alpha: transparent,
+        padColor,
+        fit,
+        anchor,
+        loops,
+        // Output of whole loops doesn't need trimming
+        duration: audio || options.length !== undefined ? outputMs : undefined,
+        audio,
+        signal,
+        logPath,
+        tempDirectory: workspace.directory,
+      }, (percent) => {
+        progress('encode', crossfadeShare + Math.round(percent * (100 - crossfadeShare) / 100));
+      });
+      log('Conversion complete!');
+      timings.encode = Date.now() - encodeStart;
+      result.fileSize = (await stat(outputPath)).size;
+      if (cacheDirectory) {
+        await storeOutput(cacheDirectory, outputKey, result);
+      }
+    }
+
+    return result;
+  } finally {
+    // Cleanup temporary files
+    const cleanupStart = Date.now();
+    log('Cleaning up...');
+    progress('cleanup', 0);
+    for (const directory of tempDirectories) {
+      await deleteDirectory(directory);
+    }
+    if (workspace?.keep) {
+      log(`Temporary files kept in: ${workspace.directory}`);
+    }
+    await workspace?.cleanup();
+    progress('cleanup', 100);
+    timings.cleanup = Date.now() - cleanupStart;
+    timings.total = Date.now() - startTime;
+  }
+}
+
+/**
+ * Validate time on the animation timeline in seconds, return milliseconds
+ */
+function timelinePosition(seconds: number, name: string): number {
+  const value = Number(seconds);
+  if (isNaN(value) || value < 0) {
+    throw new ValidationError(`${name} must be a non-negative number`);
+  }
+  return value * 1000;
+}
+
+function formatSeconds(ms: number): string {
+  return `${Number((ms / 1000).toFixed(2))}s`;
+}
+
+/**
+ * Format seconds as e.g. "1m 5s"
+ */
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.round(seconds % 60);
+  return minutes > 0 ? `${minutes}m ${rest}s` : `${rest}s`;
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractKeyframeNames,
+  parseInlineAnimations,
+  parseStylesheetAnimations,
+} from './css-animations.js';
+
+describe('parseStylesheetAnimations', () => {
+  it('parses the animation shorthand', () => {
+    const animations = parseStylesheetAnimations(
+      '.dot { animation: pulse 2s ease-in-out 500ms 3 alternate; }'
+    );
+
+    expect(animations).toEqual([
+      { name: 'pulse', duration: 2000, delay: 500, iterationCount: 3 },
+    ]);
+  });
+
+  it('parses longhand properties and infinite iteration count', () => {
+    const animations = parseStylesheetAnimations(`
+      .spin {
+        animation-name: spin, fade;
+        animation-duration: 1.5s;
+        animation-delay: -0.5s, 1s;
+        animation-iteration-count: infinite, 2;
+      }
+    `);
+
+    expect(animations).toEqual([
+      { name: 'spin', duration: 1500, delay: -500, iterationCount: Infinity },
+      { name: 'fade', duration: 1500, delay: 1000, iterationCount: 2 },
+    ]);
+  });
+
+  it('ignores the content of @keyframes and timing functions', () => {
+    const animations = parseStylesheetAnimations(`
+      /* animation: ghost 10s; */
+      @keyframes move { from { left: 0 } to { left: 10px } }
+      .a { animation: move 1s cubic-bezier(0.1, 0.7, 1, 0.1) infinite; }
+    `);
+
+    expect(animations).toEqual([
+      { name: 'move', duration: 1000, delay: 0, iterationCount: Infinity },
+    ]);
+  });
+});
+
+describe('parseInlineAnimations', () => {
+  it('parses style attribute declarations', () => {
+    expect(parseInlineAnimations('fill: red; animation: blink 250ms')).toEqual([
+      { name: 'blink', duration: 250, delay: 0, iterationCount: 1 },
+    ]);
+  });
+});
+
+describe('extractKeyframeNames', () => {
+  it('returns names of all @keyframes rules', () => {
+    const names = extractKeyframeNames(
+      '@keyframes a { to { opacity: 0 } } @-webkit-keyframes "b" { to { opacity: 1 } }'
+    );
+
+    expect([...names]).toEqual(['a', 'b']);
+  });
+});
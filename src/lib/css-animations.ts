@@ -0,0 +1,225 @@
+/**
+ * Timing of a single CSS animation
+ */
+export interface CSSAnimation {
+  name: string;
+  duration: number; // in milliseconds
+  delay: number; // in milliseconds, can be negative
+  iterationCount: number; // Infinity for "infinite"
+}
+
+// Keywords of the animation shorthand that are never an animation name
+const SHORTHAND_KEYWORDS = new Set([
+  // timing functions
+  'linear', 'ease', 'ease-in', 'ease-out', 'ease-in-out', 'step-start', 'step-end',
+  // direction
+  'normal', 'reverse', 'alternate', 'alternate-reverse',
+  // fill mode
+  'none', 'forwards', 'backwards', 'both',
+  // play state
+  'running', 'paused',
+  // global values
+  'initial', 'inherit', 'unset', 'revert',
+]);
+
+interface AnimationProperties {
+  names: string[];
+  durations: number[];
+  delays: number[];
+  iterationCounts: number[];
+}
+
+/**
+ * Parse CSS time value (e.g. "1s", "250ms", "-0.5s") to milliseconds
+ */
+export function parseCSSTime(value: string): number | null {
+  const match = value.trim().match(/^([+-]?(?:\d+\.?\d*|\.\d+))(ms|s)$/i);
+  if (!match) return null;
+  const num = parseFloat(match[1]);
+  return match[2].toLowerCase() === 'ms' ? num : num * 1000;
+}
+
+/**
+ * Return names of all @keyframes rules in the stylesheet
+ */
+export function extractKeyframeNames(css: string): Set<string> {
+  const names = new Set<string>();
+  const re = /@(?:-webkit-|-moz-)?keyframes\s+(["']?)([^\s{"']+)\1\s*\{/g;
+  const source = stripComments(css);
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(source))) {
+    names.add(match[2]);
+  }
+  return names;
+}
+
+/**
+ * Find animations declared in style rules of the stylesheet
+ */
+export function parseStylesheetAnimations(css: string): CSSAnimation[] {
+  return parseRuleAnimations(css).map((rule) => rule.animation);
+}
+
+/**
+ * Find animations declared in style rules of the stylesheet with the
+ * selector of their rule
+ */
+export function parseRuleAnimations(css: string): { selector: string; animation: CSSAnimation }[] {
+  return declarationBlocks(stripComments(css)).flatMap(({ selector, body }) => {
+    return parseDeclarations(body).map((animation) => ({ selector, animation }));
+  });
+}
+
+/**
+ * Find animations declared in inline style attribute
+ */
+export function parseInlineAnimations(style: string): CSSAnimation[] {
+  return parseDeclarations(stripComments(style));
+}
+
+function stripComments(css: string): string {
+  return css.replace(/\/\*[\s\S]*?\*\//g, '');
+}
+
+/**
+ * Return selectors and bodies of innermost rules skipping @keyframes content
+ */
+function declarationBlocks(css: string): { selector: string; body: string }[] {
+  const blocks: { selector: string; body: string }[] = [];
+  const stack: { start: number; selector: string; keyframes: boolean; nested: boolean }[] = [];
+  let preludeStart = 0;
+
+  for (let i = 0; i < css.length; i++) {
+    const char = css[i];
+    if (char === '{') {
+      const prelude = css.slice(preludeStart, i).trim();
+      const insideKeyframes = stack.some((frame) => frame.keyframes);
+      if (stack.length > 0) {
+        stack[stack.length - 1].nested = true;
+      }
+      stack.push({
+        start: i + 1,
+        selector: prelude,
+        keyframes: insideKeyframes || /^@(?:-webkit-|-moz-)?keyframes\b/.test(prelude),
+        nested: false,
+      });
+      preludeStart = i + 1;
+    } else if (char === '}') {
+      const frame = stack.pop();
+      if (frame && !frame.keyframes && !frame.nested) {
+        blocks.push({ selector: frame.selector, body: css.slice(frame.start, i) });
+      }
+      preludeStart = i + 1;
+    } else if (char === ';' && stack.length === 0) {
+      // statements like @import
+      preludeStart = i + 1;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse animation properties from a list of declarations
+ */
+function parseDeclarations(block: string): CSSAnimation[] {
+  const props: AnimationProperties = {
+    names: [],
+    durations: [],
+    delays: [],
+    iterationCounts: [],
+  };
+
+  for (const declaration of block.split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) continue;
+    const property = declaration.slice(0, colon).trim().toLowerCase()
+      .replace(/^-(?:webkit|moz)-/, '');
+    const value = declaration.slice(colon + 1).replace(/!important/i, '').trim();
+
+    switch (property) {
+      case 'animation':
+        parseShorthand(value, props);
+        break;
+      case 'animation-name':
+        props.names = splitList(value);
+        break;
+      case 'animation-duration':
+        props.durations = splitList(value).map((item) => Math.max(0, parseCSSTime(item) ?? 0));
+        break;
+      case 'animation-delay':
+        props.delays = splitList(value).map((item) => parseCSSTime(item) ?? 0);
+        break;
+      case 'animation-iteration-count':
+        props.iterationCounts = splitList(value).map(parseIterationCount);
+        break;
+    }
+  }
+
+  // Lists shorter than animation-name are repeated (CSS Animations spec)
+  return props.names
+    .filter((name) => name !== 'none')
+    .map((name, i) => ({
+      name,
+      duration: pick(props.durations, i, 0),
+      delay: pick(props.delays, i, 0),
+      iterationCount: pick(props.iterationCounts, i, 1),
+    }));
+}
+
+/**
+ * Parse animation shorthand, e.g. "spin 2s linear 1s infinite"
+ */
+function parseShorthand(value: string, props: AnimationProperties): void {
+  props.names = [];
+  props.durations = [];
+  props.delays = [];
+  props.iterationCounts = [];
+
+  for (const item of splitList(value)) {
+    let name = 'none';
+    let duration: number | null = null;
+    let delay: number | null = null;
+    let iterationCount = 1;
+
+    // Remove functions like cubic-bezier(...) and steps(...)
+    const tokens = item.replace(/[\w-]+\([^)]*\)/g, ' ').split(/\s+/).filter(Boolean);
+    for (const token of tokens) {
+      const time = parseCSSTime(token);
+      if (time !== null) {
+        // First time value is the duration, the second one is the delay
+        if (duration === null) {
+          duration = Math.max(0, time);
+        } else if (delay === null) {
+          delay = time;
+        }
+      } else if (token === 'infinite' || /^\d*\.?\d+$/.test(token)) {
+        iterationCount = parseIterationCount(token);
+      } else if (!SHORTHAND_KEYWORDS.has(token.toLowerCase())) {
+        name = token.replace(/^["']|["']$/g, '');
+      }
+    }
+
+    props.names.push(name);
+    props.durations.push(duration ?? 0);
+    props.delays.push(delay ?? 0);
+    props.iterationCounts.push(iterationCount);
+  }
+}
+
+function parseIterationCount(value: string): number {
+  if (value.trim() === 'infinite') {
+    return Infinity;
+  }
+  const count = parseFloat(value);
+  return isNaN(count) || count < 0 ? 1 : count;
+}
+
+function splitList(value: string): string[] {
+  // Split on commas outside of parentheses
+  return value.split(/,(?![^(]*\))/).map((item) => item.trim()).filter(Boolean);
+}
+
+function pick<T>(list: T[], index: number, fallback: T): T {
+  return list.length === 0 ? fallback : list[index % list.length];
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { encoderArguments, parseBitrate, recordingBitrate, resolveEncoder } from './encoder.js';
+import { ValidationError } from './utils.js';
+
+describe('resolveEncoder', () => {
+  it('keeps the default encoder of the format', () => {
+    expect(resolveEncoder('mp4')).toEqual({ codec: 'libx264' });
+    expect(encoderArguments('mp4', resolveEncoder('mp4'))).toEqual([
+      '-c:v libx264',
+      '-preset medium',
+      '-crf 23',
+      '-pix_fmt yuv420p',
+      '-movflags +faststart',
+    ]);
+    expect(encoderArguments('mov', resolveEncoder('mov', {}, undefined, true), true)).toEqual([
+      '-c:v prores_ks',
+      '-profile:v 4',
+      '-vendor apl0',
+      '-pix_fmt yuva444p10le',
+    ]);
+  });
+
+  it('resolves codec aliases and validates options of the codec', () => {
+    expect(resolveEncoder('mp4', { codec: 'h265', crf: 16, tune: 'animation' })).toEqual({
+      codec: 'libx265',
+      crf: 16,
+      tune: 'animation',
+    });
+    expect(() => resolveEncoder('mp4', { codec: 'av1', crf: 70 })).toThrow('from 0 to 63');
+    expect(() => resolveEncoder('mp4', { speed: 'turbo' })).toThrow('Invalid speed');
+    expect(() => resolveEncoder('webm', { codec: 'prores' })).toThrow('not supported by WEBM');
+    expect(() => resolveEncoder('mp4', { codec: 'mpeg2' })).toThrow(ValidationError);
+  });
+
+  it('applies named presets under explicit options', () => {
+    expect(resolveEncoder('mp4', { crf: 20 }, 'archive')).toEqual({
+      codec: 'libx265',
+      crf: 20,
+      speed: 'slow',
+      pixelFormat: 'yuv420p10le',
+    });
+    // Codec specific values of the preset are dropped with another codec
+    expect(resolveEncoder('mp4', { codec: 'vp9' }, 'lossless')).toEqual({
+      codec: 'libvpx-vp9',
+      lossless: true,
+    });
+    expect(() => resolveEncoder('gif', {}, 'web')).toThrow('not supported by GIF');
+  });
+
+  it('requires bitrate for two-pass encoding', () => {
+    expect(() => resolveEncoder('mp4', { twoPass: true })).toThrow('requires bitrate');
+    expect(() => resolveEncoder('mp4', { crf: 18, bitrate: '5M' })).toThrow('together');
+
+    const encoder = resolveEncoder('mp4', { bitrate: '5M', twoPass: true });
+    expect(encoderArguments('mp4', encoder, false, { number: 1, logFile: '/tmp/pass' }))
+      .toEqual([
+        '-c:v libx264',
+        '-preset medium',
+        '-b:v 5000k',
+        '-maxrate 5000k',
+        '-bufsize 10000k',
+        '-pass 1',
+        '-passlogfile /tmp/pass',
+        '-pix_fmt yuv420p',
+        '-movflags +faststart',
+      ]);
+  });
+
+  it('disables alternate reference frames of VP9 only with alpha', () => {
+    expect(encoderArguments('webm', resolveEncoder('webm'))).toEqual([
+      '-c:v libvpx-vp9',
+      '-crf 30',
+      '-b:v 0',
+      '-row-mt 1',
+      '-pix_fmt yuv420p',
+    ]);
+    expect(encoderArguments('webm', resolveEncoder('webm', {}, undefined, true), true)).toEqual([
+      '-c:v libvpx-vp9',
+      '-crf 30',
+      '-b:v 0',
+      '-row-mt 1',
+      '-auto-alt-ref 0',
+      '-pix_fmt yuva420p',
+    ]);
+  });
+
+  it('encodes lossless x264 without chroma subsampling', () => {
+    const encoder = resolveEncoder('mp4', {}, 'lossless');
+    expect(encoderArguments('mp4', encoder)).toEqual([
+      '-c:v libx264',
+      '-preset veryslow',
+      '-qp 0',
+      '-pix_fmt yuv444p',
+      '-movflags +faststart',
+    ]);
+  });
+});
+
+describe('parseBitrate', () => {
+  it('converts units to kbit/s', () => {
+    expect(parseBitrate('5M')).toBe(5000);
+    expect(parseBitrate('2500k')).toBe(2500);
+    expect(parseBitrate(800)).toBe(800);
+    expect(() => parseBitrate('fast')).toThrow(ValidationError);
+  });
+});
+
+describe('recordingBitrate', () => {
+  it('raises the bitrate of the screen recording for high quality output', () => {
+    expect(recordingBitrate({ codec: 'libx264' })).toBe(5000);
+    expect(recordingBitrate({ codec: 'libx264', crf: 16 })).toBe(20000);
+  });
+});
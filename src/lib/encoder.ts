@@ -0,0 +1,447 @@
+import type { OutputFormat } from './video-processor.js';
+import { ValidationError } from './utils.js';
+
+/**
+ * Video encoder settings of MP4, WebM and MOV output
+ */
+export interface EncoderOptions {
+  /** ffmpeg encoder or alias: h264, h265/hevc, vp9, av1 (SVT-AV1), av1-aom, prores, qtrle */
+  codec?: string;
+  /** Constant quality, lower is better (range depends on the codec) */
+  crf?: number;
+  /** Speed preset of the codec, e.g. medium or veryslow for x264, 0-13 for SVT-AV1 */
+  speed?: string;
+  /** Target bitrate, e.g. "5M", "2500k" or number in kbit/s */
+  bitrate?: number | string;
+  /** Two-pass encoding (requires bitrate) */
+  twoPass?: boolean;
+  /** Pixel format, e.g. yuv420p or yuv420p10le */
+  pixelFormat?: string;
+  /** Tuning of the codec, e.g. animation or grain for x264 */
+  tune?: string;
+  /** Mathematically lossless encoding */
+  lossless?: boolean;
+}
+
+/**
+ * Named encoder settings
+ * - `web` - small files that play everywhere
+ * - `archive` - high quality, efficient codecs
+ * - `lossless` - exact copy of the rendered frames
+ */
+export type EncoderPreset = 'web' | 'archive' | 'lossless';
+
+export const ENCODER_PRESETS: Record<EncoderPreset, Partial<Record<OutputFormat, EncoderOptions>>> = {
+  web: {
+    mp4: { codec: 'libx264', crf: 23, speed: 'slow' },
+    webm: { codec: 'libvpx-vp9', crf: 33, speed: 'good' },
+  },
+  archive: {
+    mp4: { codec: 'libx265', crf: 18, speed: 'slow', pixelFormat: 'yuv420p10le' },
+    webm: { codec: 'libaom-av1', crf: 20, speed: '4' },
+    mov: { codec: 'prores_ks' },
+  },
+  lossless: {
+    mp4: { codec: 'libx264', lossless: true, speed: 'veryslow' },
+    webm: { codec: 'libvpx-vp9', lossless: true },
+    mov: { codec: 'qtrle', lossless: true },
+  },
+};
+
+/**
+ * Pass of two-pass encoding, logFile is the prefix of the statistics files
+ */
+export interface EncoderPass {
+  number: 1 | 2;
+  logFile: string;
+}
+
+interface CodecInfo {
+  formats: OutputFormat[];
+  crf?: [number, number];
+  speeds?: string[];
+  tunes?: string[];
+  twoPass: boolean;
+  lossless: boolean;
+  pixelFormat: string;
+  /** Pixel format with alpha channel, undefined if the codec can't store alpha */
+  alphaPixelFormat?: string;
+}
+
+const X264_SPEEDS = [
+  'ultrafast', 'superfast', 'veryfast', 'faster', 'fast',
+  'medium', 'slow', 'slower', 'veryslow', 'placebo',
+];
+
+const range = (max: number) => Array.from({ length: max + 1 }, (_, i) => String(i));
+
+const CODECS: Record<string, CodecInfo> = {
+  libx264: {
+    formats: ['mp4', 'mov'],
+    crf: [0, 51],
+    speeds: X264_SPEEDS,
+    tunes: ['film', 'animation', 'grain', 'stillimage', 'fastdecode', 'zerolatency', 'psnr', 'ssim'],
+    twoPass: true,
+    lossless: true,
+    pixelFormat: 'yuv420p',
+  },
+  libx265: {
+    formats: ['mp4', 'mov'],
+    crf: [0, 51],
+    speeds: X264_SPEEDS,
+    tunes: ['animation', 'grain', 'fastdecode', 'zerolatency', 'psnr', 'ssim'],
+    twoPass: true,
+    lossless: true,
+    pixelFormat: 'yuv420p',
+  },
+  'libvpx-vp9': {
+    formats: ['webm', 'mp4'],
+    crf: [0, 63],
+    speeds: ['realtime', 'good', 'best'], // -deadline
+    twoPass: true,
+    lossless: true,
+    pixelFormat: 'yuv420p',
+    alphaPixelFormat: 'yuva420p',
+  },
+  'libaom-av1': {
+    formats: ['webm', 'mp4'],
+    crf: [0, 63],
+    speeds: range(8), // -cpu-used
+    tunes: ['psnr', 'ssim'],
+    twoPass: true,
+    lossless: true,
+    pixelFormat: 'yuv420p',
+  },
+  libsvtav1: {
+    formats: ['webm', 'mp4'],
+    crf: [0, 63],
+    speeds: range(13),
+    twoPass: false,
+    lossless: false,
+    pixelFormat: 'yuv420p',
+  },
+  prores_ks: {
+    formats: ['mov'],
+    twoPass: false,
+    lossless: false,
+    pixelFormat: 'yuv422p10le',
+    alphaPixelFormat: 'yuva444p10le',
+  },
+  qtrle: {
+    formats: ['mov'],
+    twoPass: false,
+    lossless: true,
+    pixelFormat: 'rgb24',
+    alphaPixelFormat: 'argb',
+  },
+};
+
+const CODEC_ALIASES: Record<string, string> = {
+  h264: 'libx264',
+  x264: 'libx264',
+  h265: 'libx265',
+  hevc: 'libx265',
+  x265: 'libx265',
+  vp9: 'libvpx-vp9',
+  av1: 'libsvtav1',
+  'svt-av1': 'libsvtav1',
+  'av1-aom': 'libaom-av1',
+  prores: 'prores_ks',
+  animation: 'qtrle',
+};
+
+/**
+ * Supported codecs (ffmpeg encoder names)
+ */
+export const VIDEO_CODECS = Object.keys(CODECS);
+
+const DEFAULT_CODECS: Partial<Record<OutputFormat, string>> = {
+  mp4: 'libx264',
+  webm: 'libvpx-vp9',
+  mov: 'prores_ks',
+};
+
+// Constant quality used when neither crf nor bitrate is set
+const DEFAULT_CRF: Record<string, number> = {
+  libx264: 23,
+  libx265: 28,
+  'libvpx-vp9': 30,
+  'libaom-av1': 30,
+  libsvtav1: 35,
+};
+
+/**
+ * Merge named preset with explicit options and validate them for the
+ * output format. Returns options with ffmpeg name of the codec, empty
+ * options for animated images that have no encoder settings.
+ */
+export function resolveEncoder(
+  format: OutputFormat,
+  options: EncoderOptions = {},
+  preset?: EncoderPreset,
+  alpha: boolean = false
+): EncoderOptions {
+  const defined = Object.values(options).some((value) => value !== undefined);
+  const defaultCodec = DEFAULT_CODECS[format];
+  if (!defaultCodec) {
+    if (defined) {
+      throw new ValidationError(`Encoder options are not supported by ${format.toUpperCase()}`);
+    }
+    if (preset) {
+      throw new ValidationError(`Quality preset ${preset} is not supported by ${format.toUpperCase()}`);
+    }
+    return {};
+  }
+
+  let presetOptions: EncoderOptions = {};
+  if (preset !== undefined) {
+    if (!(preset in ENCODER_PRESETS)) {
+      throw new ValidationError(
+        `Invalid quality preset: ${preset} (expected one of ${Object.keys(ENCODER_PRESETS).join(', ')})`
+      );
+    }
+    const formatPreset = ENCODER_PRESETS[preset][format];
+    if (!formatPreset) {
+      throw new ValidationError(`Quality preset ${preset} is not available for ${format.toUpperCase()}`);
+    }
+    presetOptions = formatPreset;
+  }
+
+  const explicit = Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  ) as EncoderOptions;
+  // Other values of the preset belong to the preset codec
+  const codecChanged = explicit.codec !== undefined &&
+    codecName(explicit.codec) !== presetOptions.codec;
+  const base = codecChanged ? { lossless: presetOptions.lossless } : presetOptions;
+  const encoder: EncoderOptions = { ...base, ...explicit };
+  encoder.codec = codecName(encoder.codec ?? defaultCodec);
+
+  const info = CODECS[encoder.codec];
+  if (!info) {
+    throw new ValidationError(
+      `Unsupported codec: ${encoder.codec} (expected one of ${VIDEO_CODECS.join(', ')})`
+    );
+  }
+  if (!info.formats.includes(format)) {
+    throw new ValidationError(
+      `Codec ${encoder.codec} is not supported by ${format.toUpperCase()} ` +
+      `(use ${info.formats.join(' or ')} output)`
+    );
+  }
+  if (alpha && !info.alphaPixelFormat) {
+    throw new ValidationError(`Codec ${encoder.codec} can't store transparency`);
+  }
+
+  if (encoder.crf !== undefined) {
+    if (!info.crf) {
+      throw new ValidationError(`Codec ${encoder.codec} has no CRF option`);
+    }
+    const [min, max] = info.crf;
+    const crf = Number(encoder.crf);
+    if (!Number.isInteger(crf) || crf < min || crf > max) {
+      throw new ValidationError(`CRF of ${encoder.codec} must be an integer from ${min} to ${max}`);
+    }
+    encoder.crf = crf;
+  }
+
+  if (encoder.speed !== undefined) {
+    encoder.speed = String(encoder.speed);
+    if (!info.speeds?.includes(encoder.speed)) {
+      throw new ValidationError(
+        info.speeds
+          ? `Invalid speed of ${encoder.codec}: ${encoder.speed} (expected one of ${info.speeds.join(', ')})`
+          : `Codec ${encoder.codec} has no speed presets`
+      );
+    }
+  }
+
+  if (encoder.tune !== undefined && !info.tunes?.includes(encoder.tune)) {
+    throw new ValidationError(
+      info.tunes
+        ? `Invalid tune of ${encoder.codec}: ${encoder.tune} (expected one of ${info.tunes.join(', ')})`
+        : `Codec ${encoder.codec} has no tune option`
+    );
+  }
+
+  if (encoder.bitrate !== undefined) {
+    encoder.bitrate = `${parseBitrate(encoder.bitrate)}k`;
+    if (!info.crf) {
+      throw new ValidationError(`Codec ${encoder.codec} has no bitrate option`);
+    }
+    if (explicit.crf !== undefined) {
+      throw new ValidationError('CRF and bitrate can\'t be used together');
+    }
+    // Bitrate replaces constant quality of the preset
+    delete encoder.crf;
+  }
+
+  if (encoder.lossless) {
+    if (!info.lossless) {
+      throw new ValidationError(`Codec ${encoder.codec} has no lossless mode`);
+    }
+    if (encoder.bitrate !== undefined || explicit.crf !== undefined) {
+      throw new ValidationError('Lossless encoding can\'t be used with CRF or bitrate');
+    }
+    delete encoder.crf;
+  }
+
+  if (encoder.twoPass) {
+    if (!info.twoPass) {
+      throw new ValidationError(`Codec ${encoder.codec} doesn't support two-pass encoding`);
+    }
+    if (encoder.bitrate === undefined) {
+      throw new ValidationError('Two-pass encoding requires bitrate');
+    }
+  }
+
+  if (encoder.pixelFormat !== undefined && !/^[a-z0-9_]+$/.test(encoder.pixelFormat)) {
+    throw new ValidationError(`Invalid pixel format: ${encoder.pixelFormat}`);
+  }
+
+  return encoder;
+}
+
+/**
+ * ffmpeg output options of the resolved encoder
+ */
+export function encoderArguments(
+  format: OutputFormat,
+  encoder: EncoderOptions,
+  alpha: boolean = false,
+  pass?: EncoderPass
+): string[] {
+  const codec = encoder.codec!;
+  const info = CODECS[codec];
+  const args = [`-c:v ${codec}`];
+  const crf = encoder.bitrate === undefined && !encoder.lossless
+    ? encoder.crf ?? DEFAULT_CRF[codec]
+    : undefined;
+  const bitrate = encoder.bitrate as string | undefined;
+
+  switch (codec) {
+    case 'libx264':
+    case 'libx265': {
+      args.push(`-preset ${encoder.speed ?? 'medium'}`);
+      if (encoder.tune) {
+        args.push(`-tune ${encoder.tune}`);
+      }
+      if (crf !== undefined) {
+        args.push(`-crf ${crf}`);
+      }
+      if (bitrate) {
+        // Constant bitrate
+        const kbps = parseBitrate(bitrate);
+        args.push(`-b:v ${kbps}k`, `-maxrate ${kbps}k`, `-bufsize ${kbps * 2}k`);
+      }
+      if (codec === 'libx264') {
+        if (encoder.lossless) {
+          args.push('-qp 0');
+        }
+        if (pass) {
+          args.push(`-pass ${pass.number}`, `-passlogfile ${pass.logFile}`);
+        }
+      } else {
+        // x265 options are passed as one list
+        const params = [];
+        if (encoder.lossless) {
+          params.push('lossless=1');
+        }
+        if (pass) {
+          params.push(`pass=${pass.number}`, `stats=${pass.logFile}.log`);
+        }
+        if (params.length > 0) {
+          args.push(`-x265-params ${params.join(':')}`);
+        }
+        if (format === 'mp4') {
+          args.push('-tag:v hvc1'); // Playable by Apple devices
+        }
+      }
+      break;
+    }
+    case 'libvpx-vp9':
+    case 'libaom-av1': {
+      if (encoder.speed) {
+        args.push(codec === 'libvpx-vp9'
+          ? `-deadline ${encoder.speed}`
+          : `-cpu-used ${encoder.speed}`);
+      }
+      if (encoder.tune) {
+        args.push(`-tune ${encoder.tune}`);
+      }
+      if (encoder.lossless) {
+        args.push(codec === 'libvpx-vp9' ? '-lossless 1' : '-aom-params lossless=1');
+      }
+      if (crf !== undefined) {
+        args.push(`-crf ${crf}`, '-b:v 0'); // Constant quality mode
+      } else if (bitrate) {
+        args.push(`-b:v ${bitrate}`);
+      }
+      args.push('-row-mt 1');
+      if (codec === 'libvpx-vp9' && alpha) {
+        args.push('-auto-alt-ref 0'); // Alternate reference frames don't support alpha
+      }
+      if (pass) {
+        args.push(`-pass ${pass.number}`, `-passlogfile ${pass.logFile}`);
+      }
+      break;
+    }
+    case 'libsvtav1': {
+      if (encoder.speed) {
+        args.push(`-preset ${encoder.speed}`);
+      }
+      if (crf !== undefined) {
+        args.push(`-crf ${crf}`);
+      } else if (bitrate) {
+        args.push(`-b:v ${bitrate}`);
+      }
+      break;
+    }
+    case 'prores_ks':
+      // 4444 carries alpha channel, 422 HQ otherwise
+      args.push(`-profile:v ${alpha ? 4 : 3}`, '-vendor apl0');
+      break;
+  }
+
+  // Full chroma resolution keeps lossless x264 output exact
+  const pixelFormat = encoder.pixelFormat ??
+    (alpha ? info.alphaPixelFormat! : encoder.lossless && codec === 'libx264' ? 'yuv444p' : info.pixelFormat);
+  args.push(`-pix_fmt ${pixelFormat}`);
+
+  if (format === 'mp4') {
+    args.push('-movflags +faststart'); // Enable fast start for web playback
+  }
+  return args;
+}
+
+/**
+ * Bitrate of the realtime screen recording in kbit/s, the intermediate
+ * video must not limit the quality of high quality output
+ */
+export function recordingBitrate(encoder: EncoderOptions): number {
+  const highQuality = encoder.lossless ||
+    (encoder.crf !== undefined && encoder.crf <= 18) ||
+    (encoder.bitrate !== undefined && parseBitrate(encoder.bitrate) > 5000);
+  return highQuality ? 20000 : 5000;
+}
+
+/**
+ * Return ffmpeg encoder name of the codec or alias
+ */
+export function codecName(codec: string): string {
+  const name = codec.toLowerCase();
+  return CODEC_ALIASES[name] ?? name;
+}
+
+/**
+ * Parse bitrate ("5M", "2500k" or number in kbit/s) into kbit/s
+ */
+export function parseBitrate(bitrate: number | string): number {
+  const match = String(bitrate).trim().match(/^(\d+(?:\.\d+)?)([km])?$/i);
+  if (!match || Number(match[1]) <= 0) {
+    throw new ValidationError(`Invalid bitrate: ${bitrate} (e.g. 5M or 2500k)`);
+  }
+  const value = Number(match[1]);
+  const unit = match[2]?.toLowerCase();
+  return Math.round(unit === 'm' ? value * 1000 : value);
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { createEventWriter } from './events.js';
+import { ValidationError } from './utils.js';
+
+function collect(job?: number) {
+  const lines: string[] = [];
+  let time = 0;
+  const events = createEventWriter((line) => lines.push(line), job, () => time);
+  const parsed = () => lines.map((line) => JSON.parse(line));
+  return { events, parsed, lines, tick: (ms: number) => { time += ms; } };
+}
+
+describe('createEventWriter', () => {
+  it('writes one JSON object per line', () => {
+    const { events, lines } = collect();
+
+    events.onLog('Analyzing SVG...');
+    events.onWarning('Unsupported begin value');
+
+    expect(lines).toEqual([
+      '{"type":"log","message":"Analyzing SVG..."}\n',
+      '{"type":"warning","message":"Unsupported begin value"}\n',
+    ]);
+  });
+
+  it('estimates the remaining time of the phase', () => {
+    const { events, parsed, tick } = collect();
+
+    events.onProgress({ phase: 'render', percent: 0, time: 0, frame: 0 });
+    tick(3000);
+    events.onProgress({ phase: 'render', percent: 25, time: 500, frame: 15 });
+    tick(1000);
+    events.onProgress({ phase: 'encode', percent: 0 });
+
+    expect(parsed()).toEqual([
+      { type: 'progress', phase: 'render', percent: 0, time: 0, frame: 0 },
+      { type: 'progress', phase: 'render', percent: 25, time: 500, frame: 15, eta: 9000 },
+      { type: 'progress', phase: 'encode', percent: 0 },
+    ]);
+  });
+
+  it('reports errors with the exit code of their category', () => {
+    const { events, parsed } = collect(2);
+
+    events.onError(new ValidationError('Input file not found: missing.svg'));
+
+    expect(parsed()).toEqual([{
+      type: 'error',
+      category: 'Validation Error',
+      exitCode: 1,
+      message: 'Input file not found: missing.svg',
+      job: 2,
+    }]);
+  });
+});
@@ -0,0 +1,70 @@
+import { ConvertProgress, ConvertResult } from './converter.js';
+import { errorCategory } from './utils.js';
+
+/**
+ * Structured output of the CLI, printed as one JSON object per line
+ */
+export type ConvertEvent =
+  | { type: 'log'; message: string; job?: number }
+  | { type: 'warning'; message: string; job?: number }
+  | (ConvertProgress & {
+    type: 'progress';
+    /** Estimated time to the end of the phase in milliseconds */
+    eta?: number;
+    job?: number;
+  })
+  | (ConvertResult & { type: 'result'; job?: number })
+  | {
+    type: 'error';
+    /** Category of the error, e.g. Validation Error */
+    category: string;
+    exitCode: number;
+    message: string;
+    job?: number;
+  };
+
+export const PROGRESS_FORMATS = ['text', 'ndjson'];
+
+/**
+ * Create callbacks of the conversion that write NDJSON events, events of
+ * batch jobs carry the index of the job
+ */
+export function createEventWriter(
+  write: (line: string) => void,
+  job?: number,
+  now: () => number = Date.now
+) {
+  const emit = (event: ConvertEvent) => {
+    write(`${JSON.stringify(job === undefined ? event : { ...event, job })}\n`);
+  };
+  // ETA is extrapolated from the time spent in the current phase
+  let phase: ConvertProgress['phase'] | undefined;
+  let phaseStart = now();
+
+  return {
+    onLog(message: string) {
+      emit({ type: 'log', message });
+    },
+    onWarning(message: string) {
+      emit({ type: 'warning', message });
+    },
+    onProgress(progress: ConvertProgress) {
+      if (progress.phase !== phase) {
+        phase = progress.phase;
+        phaseStart = now();
+      }
+      const { percent } = progress;
+      const elapsed = now() - phaseStart;
+      const eta = percent > 0 ? Math.round((elapsed * (100 - percent)) / percent) : undefined;
+      emit({ type: 'progress', ...progress, eta });
+    },
+    onResult(result: ConvertResult) {
+      emit({ type: 'result', ...result });
+    },
+    onError(error: unknown) {
+      const { label, exitCode } = errorCategory(error);
+      const message = error instanceof Error ? error.message : String(error);
+      emit({ type: 'error', category: label, exitCode, message });
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { computeFit, fitFilters, validateFit } from './fit.js';
+import { resolvePreset } from './presets.js';
+import { ValidationError } from './utils.js';
+
+const landscape = { width: 400, height: 200 };
+const square = { width: 1080, height: 1080 };
+
+describe('computeFit', () => {
+  it('places contained SVG at the anchor', () => {
+    expect(computeFit(landscape, square, 'contain', 'center')).toEqual({
+      x: 0, y: 270, width: 1080, height: 540, scaleX: 1, scaleY: 1,
+    });
+    expect(computeFit(landscape, square, 'contain', 'bottom').y).toBe(540);
+  });
+
+  it('crops covering SVG at the anchor', () => {
+    expect(computeFit(landscape, square, 'cover', 'left')).toEqual({
+      x: 0, y: 0, width: 2160, height: 1080, scaleX: 1, scaleY: 1,
+    });
+    expect(computeFit(landscape, square, 'cover', 'right').x).toBe(-1080);
+  });
+
+  it('stretches filled SVG by shrinking one axis', () => {
+    expect(computeFit(landscape, square, 'fill')).toEqual({
+      x: 0, y: 0, width: 2160, height: 1080, scaleX: 0.5, scaleY: 1,
+    });
+  });
+
+  it('keeps the original size without fit', () => {
+    expect(computeFit(landscape, square, 'none', 'top-right')).toEqual({
+      x: 680, y: 0, width: 400, height: 200, scaleX: 1, scaleY: 1,
+    });
+  });
+});
+
+describe('fitFilters', () => {
+  it('matches the page layout', () => {
+    expect(fitFilters(1080, 1080, 'contain', 'bottom', { padColor: 'white' })).toEqual([
+      'scale=1080:1080:force_original_aspect_ratio=decrease',
+      'pad=1080:1080:(ow-iw)*0.5:(oh-ih)*1:color=white',
+    ]);
+    expect(fitFilters(1080, 1080, 'cover', 'top-left')).toEqual([
+      'scale=1080:1080:force_original_aspect_ratio=increase',
+      'crop=1080:1080:(iw-ow)*0:(ih-oh)*0',
+    ]);
+    expect(fitFilters(1080, 1080, 'fill')).toEqual(['scale=1080:1080']);
+  });
+
+  it('downscales supersampled input with lanczos', () => {
+    expect(fitFilters(640, 480, 'none', 'center', { scale: 2 })).toEqual([
+      'scale=iw/2:ih/2:flags=lanczos',
+      "crop='min(iw,640)':'min(ih,480)':(iw-ow)*0.5:(ih-oh)*0.5",
+      'pad=640:480:(ow-iw)*0.5:(oh-ih)*0.5',
+    ]);
+  });
+});
+
+describe('validateFit', () => {
+  it('rejects unknown fit modes and anchors', () => {
+    expect(() => validateFit('stretch', 'center')).toThrow(ValidationError);
+    expect(() => validateFit('cover', 'middle')).toThrow(ValidationError);
+    expect(() => validateFit('cover', 'bottom-left')).not.toThrow();
+  });
+});
+
+describe('resolvePreset', () => {
+  it('sets size, frame rate and encoder of output presets', () => {
+    expect(resolvePreset('instagram-story')).toEqual({
+      width: 1080,
+      height: 1920,
+      fps: 30,
+      encoder: 'web',
+    });
+    expect(() => resolvePreset('archive')).toThrow('archive is a quality preset');
+    expect(() => resolvePreset('facebook')).toThrow(/instagram-square/);
+  });
+});
@@ -0,0 +1,156 @@
+import { ValidationError } from './utils.js';
+
+/**
+ * How the SVG fills the output frame (same as CSS object-fit):
+ * - `contain` - scaled to fit inside, the rest is background
+ * - `cover` - scaled to fill the frame, the overflow is cropped
+ * - `fill` - stretched to the frame, aspect ratio is not preserved
+ * - `none` - original size, cropped or surrounded by background
+ */
+export type FitMode = 'contain' | 'cover' | 'fill' | 'none';
+
+export const FIT_MODES: FitMode[] = ['contain', 'cover', 'fill', 'none'];
+
+/**
+ * Where the SVG is placed in the frame when it doesn't fill it exactly
+ */
+export type Anchor =
+  | 'center'
+  | 'top'
+  | 'bottom'
+  | 'left'
+  | 'right'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right';
+
+// Position as fraction of the free space (0 = left/top, 1 = right/bottom)
+const ANCHOR_POSITIONS: Record<Anchor, [number, number]> = {
+  'center': [0.5, 0.5],
+  'top': [0.5, 0],
+  'bottom': [0.5, 1],
+  'left': [0, 0.5],
+  'right': [1, 0.5],
+  'top-left': [0, 0],
+  'top-right': [1, 0],
+  'bottom-left': [0, 1],
+  'bottom-right': [1, 1],
+};
+
+export const ANCHORS = Object.keys(ANCHOR_POSITIONS) as Anchor[];
+
+/**
+ * Placement of the SVG in the page. The SVG is laid out at width x height
+ * (so it's rendered sharp) and stretched by scaleX and scaleY, which are
+ * not 1 only in `fill` mode.
+ */
+export interface FitBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * Throw ValidationError for unknown fit mode or anchor
+ */
+export function validateFit(fit: string, anchor: string): void {
+  if (!FIT_MODES.includes(fit as FitMode)) {
+    throw new ValidationError(`Invalid fit mode: ${fit} (expected one of ${FIT_MODES.join(', ')})`);
+  }
+  if (!(anchor in ANCHOR_POSITIONS)) {
+    throw new ValidationError(`Invalid anchor: ${anchor} (expected one of ${ANCHORS.join(', ')})`);
+  }
+}
+
+/**
+ * Compute placement of the source (SVG) in the target frame
+ */
+export function computeFit(
+  source: Size,
+  target: Size,
+  fit: FitMode = 'contain',
+  anchor: Anchor = 'center'
+): FitBox {
+  const fitX = target.width / source.width;
+  const fitY = target.height / source.height;
+  let [scaleX, scaleY] = [1, 1];
+  switch (fit) {
+    case 'contain':
+      scaleX = scaleY = Math.min(fitX, fitY);
+      break;
+    case 'cover':
+      scaleX = scaleY = Math.max(fitX, fitY);
+      break;
+    case 'fill':
+      [scaleX, scaleY] = [fitX, fitY];
+      break;
+  }
+
+  // Layout at the larger scale, stretching only shrinks the other axis
+  const layout = Math.max(scaleX, scaleY);
+  const [ax, ay] = ANCHOR_POSITIONS[anchor];
+  return {
+    x: round((target.width - source.width * scaleX) * ax),
+    y: round((target.height - source.height * scaleY) * ay),
+    width: round(source.width * layout),
+    height: round(source.height * layout),
+    scaleX: round(scaleX / layout),
+    scaleY: round(scaleY / layout),
+  };
+}
+
+/**
+ * ffmpeg filters that fit the input into width x height the same way
+ * the page is laid out, input rendered `scale` times larger is downscaled
+ * with lanczos filter
+ */
+export function fitFilters(
+  width: number,
+  height: number,
+  fit: FitMode = 'contain',
+  anchor: Anchor = 'center',
+  options: { scale?: number; padColor?: string } = {}
+): string[] {
+  const [ax, ay] = ANCHOR_POSITIONS[anchor];
+  const scale = options.scale ?? 1;
+  // Lanczos keeps the edges of supersampled frames sharp
+  const flags = scale > 1 ? ':flags=lanczos' : '';
+  const color = options.padColor ? `:color=${options.padColor}` : '';
+  const pad = `pad=${width}:${height}:(ow-iw)*${ax}:(oh-ih)*${ay}${color}`;
+  const crop = (w: string, h: string) => `crop=${w}:${h}:(iw-ow)*${ax}:(ih-oh)*${ay}`;
+
+  switch (fit) {
+    case 'contain':
+      return [
+        `scale=${width}:${height}:force_original_aspect_ratio=decrease${flags}`,
+        pad,
+      ];
+    case 'cover':
+      return [
+        `scale=${width}:${height}:force_original_aspect_ratio=increase${flags}`,
+        crop(String(width), String(height)),
+      ];
+    case 'fill':
+      return [`scale=${width}:${height}${flags}`];
+    case 'none':
+      return [
+        ...(scale > 1 ? [`scale=iw/${scale}:ih/${scale}${flags}`] : []),
+        crop(`'min(iw,${width})'`, `'min(ih,${height})'`),
+        pad,
+      ];
+  }
+}
+
+function round(value: number): number {
+  // + 0 turns -0 into 0
+  return Math.round(value * 1000) / 1000 + 0;
+}
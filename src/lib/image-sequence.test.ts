@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { sequenceOutput } from './image-sequence.js';
+import { frameFileName } from './recorder.js';
+
+describe('sequenceOutput', () => {
+  it('detects file name patterns', async () => {
+    expect(await sequenceOutput('out/img_%03d.png')).toEqual({
+      directory: resolve('out'),
+      pattern: 'img_%03d.png',
+    });
+  });
+
+  it('uses the default pattern for directories', async () => {
+    expect(await sequenceOutput('out/')).toEqual({
+      directory: resolve('out'),
+      pattern: 'frame_%05d.png',
+    });
+    expect(await sequenceOutput(tmpdir())).toEqual({
+      directory: tmpdir(),
+      pattern: 'frame_%05d.png',
+    });
+  });
+
+  it('returns null for video files', async () => {
+    expect(await sequenceOutput(join(tmpdir(), 'output.mp4'))).toBeNull();
+  });
+
+  it('rejects patterns of other image formats', async () => {
+    await expect(sequenceOutput('out/frame_%05d.jpg')).rejects.toThrow('must end with .png');
+  });
+});
+
+describe('frameFileName', () => {
+  it('formats the frame number', () => {
+    expect(frameFileName(1)).toBe('frame_00001.png');
+    expect(frameFileName(42, 'img%d.png')).toBe('img42.png');
+  });
+});
@@ -0,0 +1,63 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { basename, dirname, extname, join, resolve, sep } from 'path';
+import { FRAME_PATTERN } from './recorder.js';
+import { SVGDimensions } from './svg-analyzer.js';
+import { isDirectory, ValidationError } from './utils.js';
+
+/**
+ * Where the PNG frames of an image sequence are written
+ */
+export interface SequenceOutput {
+  directory: string;
+  pattern: string; // file name pattern, e.g. frame_%05d.png
+}
+
+/**
+ * Content of the JSON sidecar file written next to the frames
+ */
+export interface SequenceInfo {
+  fps: number;
+  frameCount: number;
+  firstFrame: number;
+  pattern: string;
+  width: number;
+  height: number;
+  duration: number; // in milliseconds
+  source: SVGDimensions;
+}
+
+export const SEQUENCE_INFO_FILE = 'frames.json';
+
+/**
+ * Return image sequence output if the path is a directory (existing or
+ * ending with a slash) or a file name pattern like out/frame_%05d.png,
+ * null for regular video output
+ */
+export async function sequenceOutput(outputPath: string): Promise<SequenceOutput | null> {
+  const name = basename(outputPath);
+  if (/%0?\d*d/.test(name)) {
+    if (extname(name).toLowerCase() !== '.png') {
+      throw new ValidationError(`Image sequence pattern must end with .png: ${outputPath}`);
+    }
+    return { directory: dirname(resolve(outputPath)), pattern: name };
+  }
+
+  if (outputPath.endsWith('/') || outputPath.endsWith(sep) || (await isDirectory(outputPath))) {
+    return { directory: resolve(outputPath), pattern: FRAME_PATTERN };
+  }
+
+  return null;
+}
+
+/**
+ * Write JSON sidecar describing the image sequence, return its path
+ */
+export async function writeSequenceInfo(
+  directory: string,
+  info: SequenceInfo
+): Promise<string> {
+  const infoPath = join(directory, SEQUENCE_INFO_FILE);
+  await mkdir(directory, { recursive: true });
+  await writeFile(infoPath, JSON.stringify(info, null, 2) + '\n', 'utf-8');
+  return infoPath;
+}
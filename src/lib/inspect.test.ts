@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeSVGContent } from './svg-analyzer.js';
+import { formatInspection } from './inspect.js';
+
+describe('formatInspection', () => {
+  it('shows the animations and the one that decides the duration', () => {
+    const text = formatInspection(analyzeSVGContent(`
+      <svg xmlns="http://www.w3.org/2000/svg" width="20" height="10">
+        <rect id="box" width="10" height="10">
+          <animate id="fade" attributeName="opacity" to="0" dur="1s"/>
+          <animate attributeName="x" to="10" dur="1s" begin="fade.end" repeatCount="3"/>
+        </rect>
+      </svg>
+    `));
+
+    expect(text).toContain('Duration: 4s (decided by animation 2 (x))');
+    expect(text).toContain('1   animate  fade  #box    opacity    0s        1s           0s     1s');
+    expect(text).toContain('2*  animate        #box    x          fade.end  1s   3       1s     4s');
+    expect(text).toContain([
+      'Timeline (0s - 4s):',
+      `1 |${'='.repeat(13).padEnd(50)}|`,
+      `2 |${' '.repeat(13)}${'='.repeat(37)}|`,
+    ].join('\n'));
+  });
+
+  it('marks loops and lists warnings', () => {
+    const text = formatInspection(analyzeSVGContent(`
+      <svg xmlns="http://www.w3.org/2000/svg" width="20" height="10">
+        <style>@keyframes spin { to { rotate: 1turn } } .wheel { animation: spin 2s infinite }</style>
+        <rect class="wheel" width="10" height="10">
+          <set attributeName="fill" to="red" begin="click"/>
+        </rect>
+      </svg>
+    `));
+
+    expect(text).toContain('Loop: 2s (decided by animation 2 (spin))');
+    expect(text).toContain('2*  css          .wheel  spin       0s     2s   infinite  0s     infinite');
+    expect(text).toContain(`2 |${'~'.repeat(50)}>`);
+    expect(text).toMatch(/Warnings:\n {2}- Event based timing "click"/);
+  });
+});
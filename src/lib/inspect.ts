@@ -0,0 +1,175 @@
+import { AnimationInfo, ExternalResource, SVGAnalysis } from './svg-analyzer.js';
+
+/** Number of characters of the ASCII timeline */
+const TIMELINE_WIDTH = 50;
+
+/**
+ * Format analysis of the SVG for the inspect command: summary, table of
+ * animations, ASCII timeline, external resources and warnings
+ */
+export function formatInspection(analysis: SVGAnalysis): string {
+  const lines = [
+    `Dimensions: ${analysis.dimensions.width}x${analysis.dimensions.height}`,
+    summary(analysis),
+  ];
+
+  if (analysis.animations.length > 0) {
+    lines.push('', ...animationTable(analysis.animations));
+    const timeline = asciiTimeline(analysis);
+    if (timeline.length > 0) {
+      lines.push('', ...timeline);
+    }
+  }
+
+  if (analysis.hasScripts) {
+    const signals = analysis.signals.done ? ', ends with svgVideo.done()' : '';
+    lines.push('', `Scripts: yes${signals}`);
+  }
+
+  if (analysis.resources.length > 0) {
+    lines.push('', 'Resources:', ...resourceTable(analysis.resources));
+  }
+
+  if (analysis.warnings.length > 0) {
+    lines.push('', 'Warnings:', ...analysis.warnings.map((warning) => `  - ${warning}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Describe the detected duration or loop and the animations deciding it
+ */
+function summary(analysis: SVGAnalysis): string {
+  const decisive = analysis.animations
+    .map((animation, index) => (animation.decisive ? label(animation, index) : null))
+    .filter(Boolean)
+    .join(', ');
+  const by = decisive ? ` (decided by ${decisive})` : '';
+
+  if (!analysis.hasAnimations) {
+    return 'Duration: no animations detected';
+  }
+  if (analysis.loopDuration !== null) {
+    const start = analysis.loopStart > 0
+      ? `, all loops running from ${seconds(analysis.loopStart)}`
+      : '';
+    return `Loop: ${seconds(analysis.loopDuration)}${start}${by}`;
+  }
+  if (analysis.duration !== null) {
+    return `Duration: ${seconds(analysis.duration)}${by}`;
+  }
+  return analysis.hasInfiniteAnimations
+    ? 'Loop: no detectable loop duration'
+    : 'Duration: unknown';
+}
+
+function animationTable(animations: AnimationInfo[]): string[] {
+  const header = [
+    '#', 'Element', 'Id', 'Target', 'Attribute', 'Begin', 'Dur', 'Repeat', 'Start', 'End',
+  ];
+  const rows = animations.map((animation, index) => [
+    `${index + 1}${animation.decisive ? '*' : ''}`,
+    animation.element,
+    animation.id ?? '',
+    animation.target ?? '',
+    animation.attribute ?? '',
+    animation.begin,
+    animation.dur ?? '',
+    animation.repeat ?? '',
+    animation.beginTime === null ? 'event' : seconds(animation.beginTime),
+    endLabel(animation),
+  ]);
+  return [...table(header, rows), '* decides the duration or the loop'];
+}
+
+function resourceTable(resources: ExternalResource[]): string[] {
+  const header = ['Kind', 'URL', 'Status'];
+  const rows = resources.map((resource) => [resource.kind, resource.url, resource.status]);
+  return table(header, rows);
+}
+
+/**
+ * Columns padded to the longest cell, with a line below the header
+ */
+function table(header: string[], rows: string[][]): string[] {
+  const widths = header.map((title, column) => {
+    return Math.max(title.length, ...rows.map((row) => row[column].length));
+  });
+  const format = (row: string[]) => row
+    .map((cell, column) => cell.padEnd(widths[column]))
+    .join('  ')
+    .trimEnd();
+
+  return [
+    format(header),
+    format(widths.map((width) => '-'.repeat(width))),
+    ...rows.map(format),
+  ];
+}
+
+/**
+ * Rows of the animations on a common time axis, `=` is a finite
+ * animation and `~` a loop that continues after the end of the axis
+ */
+function asciiTimeline(analysis: SVGAnalysis): string[] {
+  const length = timelineLength(analysis);
+  if (length <= 0) {
+    return [];
+  }
+  const column = (time: number) => {
+    return Math.min(TIMELINE_WIDTH, Math.max(0, Math.round((time / length) * TIMELINE_WIDTH)));
+  };
+  const numbers = analysis.animations.map((_, index) => String(index + 1));
+  const labelWidth = Math.max(...numbers.map((number) => number.length));
+
+  const rows = analysis.animations.map((animation, index) => {
+    let bar = ' '.repeat(TIMELINE_WIDTH);
+    let tail = '|';
+    if (animation.beginTime !== null) {
+      const start = column(animation.beginTime);
+      const infinite = animation.endTime === null;
+      const end = infinite ? TIMELINE_WIDTH : Math.max(start + 1, column(animation.endTime!));
+      const fill = (infinite ? '~' : '=').repeat(Math.min(end, TIMELINE_WIDTH) - start);
+      bar = (' '.repeat(start) + fill).padEnd(TIMELINE_WIDTH);
+      tail = infinite ? '>' : '|';
+    }
+    return `${numbers[index].padStart(labelWidth)} |${bar}${tail}`;
+  });
+
+  const end = seconds(length);
+  const axis = `${' '.repeat(labelWidth + 1)} 0s${end.padStart(TIMELINE_WIDTH - 1)}`;
+  return [`Timeline (0s - ${end}):`, ...rows, axis];
+}
+
+/**
+ * Length of the time axis: the recorded part and all finite animations
+ */
+function timelineLength(analysis: SVGAnalysis): number {
+  const loopEnd = analysis.loopDuration !== null
+    ? analysis.loopStart + analysis.loopDuration
+    : 0;
+  const times = analysis.animations.flatMap((animation) => [
+    animation.beginTime ?? 0,
+    animation.endTime ?? 0,
+    // Loops are shown at least once
+    (animation.beginTime ?? 0) + (animation.period ?? 0),
+  ]);
+  return Math.max(analysis.duration ?? 0, loopEnd, ...times);
+}
+
+function endLabel(animation: AnimationInfo): string {
+  if (animation.beginTime === null) {
+    return '-';
+  }
+  return animation.endTime === null ? 'infinite' : seconds(animation.endTime);
+}
+
+function label(animation: AnimationInfo, index: number): string {
+  const name = animation.id ?? animation.attribute;
+  return `animation ${index + 1}${name ? ` (${name})` : ''}`;
+}
+
+function seconds(ms: number): string {
+  return `${Number((ms / 1000).toFixed(3))}s`;
+}
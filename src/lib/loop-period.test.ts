@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { computeLoopPeriod } from './loop-period.js';
+
+describe('computeLoopPeriod', () => {
+  it('returns null without loops', () => {
+    expect(computeLoopPeriod([])).toBeNull();
+  });
+
+  it('uses the least common multiple of the periods', () => {
+    expect(computeLoopPeriod([
+      { period: 2000, begin: 0 },
+      { period: 3000, begin: 0 },
+    ])).toEqual({ start: 0, exact: 6000, chosen: 6000, warning: null });
+  });
+
+  it('starts the loop when the last animation begins', () => {
+    const period = computeLoopPeriod([
+      { period: 1500, begin: -500 },
+      { period: 1000, begin: 2000 },
+    ]);
+
+    expect(period?.start).toBe(2000);
+    expect(period?.exact).toBe(3000);
+  });
+
+  it('approximates loops longer than the limit', () => {
+    const period = computeLoopPeriod([
+      { period: 1000, begin: 0 },
+      { period: 1001, begin: 0 },
+    ], 10000);
+
+    expect(period?.exact).toBe(1001000);
+    expect(period?.chosen).toBe(1001);
+    expect(period?.warning).toContain('is too long, using 1.00s');
+  });
+
+  it('records a single loop longer than the limit', () => {
+    expect(computeLoopPeriod([{ period: 720000, begin: 0 }], 600000)).toEqual({
+      start: 0,
+      exact: 720000,
+      chosen: 720000,
+      warning: null,
+    });
+  });
+
+  it('records the longest loop once when it is longer than the limit', () => {
+    const period = computeLoopPeriod([
+      { period: 720000, begin: 0 },
+      { period: 500000, begin: 0 },
+    ], 600000);
+
+    expect(period?.chosen).toBe(720000);
+    expect(period?.warning).toBe(
+      'Common loop period of 18000.00s is too long, using 720.00s ' +
+      '(loops are off by up to 44.0% of their period)'
+    );
+  });
+});
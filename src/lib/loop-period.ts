@@ -0,0 +1,99 @@
+/**
+ * Infinite animation repeating with given period
+ */
+export interface Loop {
+  period: number; // in milliseconds
+  begin: number; // in milliseconds, when the animation starts
+}
+
+export interface LoopPeriod {
+  start: number; // time when all loops are running
+  exact: number; // least common multiple of all periods
+  chosen: number; // period used for recording
+  warning: string | null;
+}
+
+/** Longest loop that is recorded, longer loops are approximated */
+export const MAX_LOOP_DURATION = 600 * 1000; // 10 minutes
+
+// Loops that drift less than this fraction of their period are seamless
+const DRIFT_TOLERANCE = 0.001;
+
+/**
+ * Compute period after which all loops are in the same phase again.
+ * All loops run after the latest begin, from then every common multiple
+ * of the periods is a seamless loop. When the least common multiple is
+ * longer than maxDuration, the multiple of the longest period with the
+ * smallest drift of other loops is used instead. A single loop and a
+ * longest loop over maxDuration are recorded for one whole period.
+ */
+export function computeLoopPeriod(
+  loops: Loop[],
+  maxDuration: number = MAX_LOOP_DURATION
+): LoopPeriod | null {
+  if (loops.length === 0) {
+    return null;
+  }
+
+  const start = Math.max(0, ...loops.map((loop) => loop.begin));
+  // Periods are compared with millisecond precision
+  const periods = [...new Set(loops.map((loop) => Math.max(1, Math.round(loop.period))))];
+
+  let lcm = 1n;
+  for (const period of periods) {
+    const value = BigInt(period);
+    lcm = (lcm / gcd(lcm, value)) * value;
+  }
+  const exact = Number(lcm);
+
+  // One loop has no drift, even when it's longer than the limit
+  if (exact <= maxDuration || periods.length === 1) {
+    return { start, exact, chosen: exact, warning: null };
+  }
+
+  // No multiple of the longest period fits the limit, it's recorded once
+  const longest = Math.max(...periods);
+  let chosen = longest;
+  let chosenDrift = maxDrift(longest, periods);
+  for (let total = longest; total <= maxDuration; total += longest) {
+    const drift = maxDrift(total, periods);
+    if (drift < chosenDrift - DRIFT_TOLERANCE) {
+      chosen = total;
+      chosenDrift = drift;
+    }
+  }
+
+  const percent = (chosenDrift * 100).toFixed(1);
+  return {
+    start,
+    exact,
+    chosen,
+    warning:
+      `Common loop period of ${formatSeconds(exact)} is too long, ` +
+      `using ${formatSeconds(chosen)} (loops are off by up to ${percent}% of their period)`,
+  };
+}
+
+/**
+ * Largest phase difference (as fraction of the period) of loops
+ * at the end of given duration
+ */
+function maxDrift(duration: number, periods: number[]): number {
+  let drift = 0;
+  for (const period of periods) {
+    const rest = duration % period;
+    drift = Math.max(drift, Math.min(rest, period - rest) / period);
+  }
+  return drift;
+}
+
+function gcd(a: bigint, b: bigint): bigint {
+  while (b !== 0n) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(2)}s`;
+}
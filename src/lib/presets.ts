@@ -0,0 +1,45 @@
+import { EncoderPreset, ENCODER_PRESETS } from './encoder.js';
+import { ValidationError } from './utils.js';
+
+/**
+ * Resolution, frame rate and encoder settings of a publishing target
+ */
+export interface OutputPreset {
+  width: number;
+  height: number;
+  fps: number;
+  encoder: EncoderPreset;
+}
+
+export type OutputPresetName =
+  | 'instagram-square'
+  | 'instagram-portrait'
+  | 'instagram-story'
+  | 'tiktok'
+  | 'youtube'
+  | 'youtube-4k'
+  | 'twitter';
+
+export const OUTPUT_PRESETS: Record<OutputPresetName, OutputPreset> = {
+  'instagram-square': { width: 1080, height: 1080, fps: 30, encoder: 'web' },
+  'instagram-portrait': { width: 1080, height: 1350, fps: 30, encoder: 'web' },
+  'instagram-story': { width: 1080, height: 1920, fps: 30, encoder: 'web' },
+  'tiktok': { width: 1080, height: 1920, fps: 30, encoder: 'web' },
+  'youtube': { width: 1920, height: 1080, fps: 30, encoder: 'web' },
+  'youtube-4k': { width: 3840, height: 2160, fps: 30, encoder: 'web' },
+  'twitter': { width: 1280, height: 720, fps: 30, encoder: 'web' },
+};
+
+/**
+ * Settings of the output preset, quality presets have their own option
+ */
+export function resolvePreset(name: string): OutputPreset {
+  if (name in OUTPUT_PRESETS) {
+    return OUTPUT_PRESETS[name as OutputPresetName];
+  }
+  const names = Object.keys(OUTPUT_PRESETS).join(', ');
+  if (name in ENCODER_PRESETS) {
+    throw new ValidationError(`Invalid preset: ${name} is a quality preset (expected one of ${names})`);
+  }
+  throw new ValidationError(`Invalid preset: ${name} (expected one of ${names})`);
+}
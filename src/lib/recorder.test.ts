@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { checkScale, frameCount } from './recorder.js';
+import { ValidationError } from './utils.js';
+
+describe('checkScale', () => {
+  it('accepts small supersampled frames without warnings', () => {
+    expect(checkScale(400, 300, 2, 'frames')).toEqual([]);
+    expect(checkScale(1920, 1080, 1, 'realtime')).toEqual([]);
+  });
+
+  it('warns about the cost of large frames', () => {
+    const warnings = checkScale(1920, 1080, 3, 'realtime');
+    expect(warnings[0]).toContain('5760x3240 frames (71 MB each)');
+    expect(warnings[0]).toContain('about 9x longer');
+    expect(warnings[1]).toContain('--capture frames');
+  });
+
+  it('rejects invalid factors and frames larger than the browser limit', () => {
+    expect(() => checkScale(400, 300, 8, 'frames')).toThrow(ValidationError);
+    expect(() => checkScale(400, 300, 0.5, 'frames')).toThrow(ValidationError);
+    expect(() => checkScale(5000, 1000, 4, 'frames')).toThrow('browser limit');
+  });
+});
+
+describe('frameCount', () => {
+  it('rounds to whole frames', () => {
+    expect(frameCount(1000, 30)).toBe(30);
+    expect(frameCount(10, 30)).toBe(1);
+  });
+});
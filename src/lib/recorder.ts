@@ -1,55 +1,224 @@
-import puppeteer, { Browser, Page } from 'puppeteer';
+import puppeteer, { Browser, CDPSession, Page } from 'puppeteer';
 import { PuppeteerScreenRecorder } from 'puppeteer-screen-recorder';
-import { ProcessingError } from './utils.js';
+import { mkdir } from 'fs/promises';
+import { join } from 'path';
+import { ProcessingError, ValidationError } from './utils.js';
+import { ANIMATION_SELECTOR } from './template-generator.js';
+import { installSignals, isDone, isReady, waitForSignal } from './signals.js';
+
+/**
+ * How the animation is captured:
+ * - `realtime` records the screen while the animation plays
+ * - `frames` pauses the timeline and takes a screenshot of every frame
+ */
+export type CaptureMode = 'realtime' | 'frames';
+
+export const CAPTURE_MODES: CaptureMode[] = ['realtime', 'frames'];
+
+/**
+ * File name pattern of captured frames (ffmpeg image2 syntax)
+ */
+export const FRAME_PATTERN = 'frame_%05d.png';
+
+/**
+ * Number of the first captured frame
+ */
+export const FIRST_FRAME = 1;
+
+/**
+ * Time the page has to call svgVideo.ready(), in milliseconds
+ */
+export const READY_TIMEOUT = 30 * 1000;
+
+// Virtual time advanced at once while waiting for svgVideo.ready()
+const READY_STEP = 50;
+
+// Time the SVG gets to initialize before realtime recording starts
+const SETTLE_DELAY = 500;
+
+/**
+ * Largest device scale factor of supersampled rendering
+ */
+export const MAX_SCALE = 4;
+
+// Largest canvas Chrome can render, in pixels per side
+const MAX_CANVAS_SIZE = 16384;
+
+// Rendered frames larger than 4K are slow to capture and encode
+const LARGE_FRAME_PIXELS = 3840 * 2160;
 
 export interface RecorderOptions {
   width: number;
   height: number;
   duration: number; // in milliseconds
   fps?: number;
+  scale?: number; // device scale factor, the page is rendered scale times larger
+  videoBitrate?: number; // in kbit/s, of the realtime recording (default: 5000)
+  capture?: CaptureMode;
+  start?: number; // in milliseconds, time on the animation timeline where recording starts
+  transparent?: boolean; // omit page background (frames capture only)
+  framePattern?: string; // file name of frames (frames capture only), default FRAME_PATTERN
+  signal?: AbortSignal; // stops the recording
+  browser?: Browser; // shared browser, launched and closed for this recording if not set
+  waitForReady?: boolean; // start recording after the page calls svgVideo.ready()
+  untilDone?: boolean; // stop when the page calls svgVideo.done(), duration is the maximum
+}
+
+export interface RecordingResult {
+  duration: number; // recorded length in milliseconds
+  done: boolean; // the page called svgVideo.done()
+}
+
+/**
+ * Seeks the animation timeline of the loaded page
+ */
+interface Timeline {
+  seek(time: number): Promise<void>; // time in milliseconds
+}
+
+/**
+ * Return file name of the frame with given number, e.g. frame_00001.png
+ */
+export function frameFileName(number: number, pattern: string = FRAME_PATTERN): string {
+  return pattern.replace(/%(0?)(\d*)d/, (_, zero: string, width: string) => {
+    return String(number).padStart(Number(width) || 0, zero ? '0' : ' ');
+  });
+}
+
+/**
+ * Return number of frames captured for given duration (in milliseconds)
+ */
+export function frameCount(duration: number, fps: number): number {
+  return Math.max(1, Math.round((duration / 1000) * fps));
+}
+
+/**
+ * Validate device scale factor of supersampled rendering, return warnings
+ * about the memory and time it costs
+ */
+export function checkScale(
+  width: number,
+  height: number,
+  scale: number,
+  capture: CaptureMode
+): string[] {
+  if (isNaN(scale) || scale < 1 || scale > MAX_SCALE) {
+    throw new ValidationError(`Scale must be a number from 1 to ${MAX_SCALE}`);
+  }
+  const scaledWidth = Math.round(width * scale);
+  const scaledHeight = Math.round(height * scale);
+  if (Math.max(scaledWidth, scaledHeight) > MAX_CANVAS_SIZE) {
+    throw new ValidationError(
+      `Rendered frame ${scaledWidth}x${scaledHeight} is larger than the browser ` +
+      `limit of ${MAX_CANVAS_SIZE}px, use a smaller scale`
+    );
+  }
+
+  const warnings: string[] = [];
+  const pixels = scaledWidth * scaledHeight;
+  if (pixels > LARGE_FRAME_PIXELS) {
+    const megabytes = Math.round((pixels * 4) / (1024 * 1024));
+    warnings.push(
+      `Scale ${scale} renders ${scaledWidth}x${scaledHeight} frames (${megabytes} MB each), ` +
+      `rendering takes about ${Math.round(scale * scale)}x longer`
+    );
+  }
+  if (scale > 1 && capture === 'realtime' && pixels > LARGE_FRAME_PIXELS / 4) {
+    warnings.push('Realtime recording of large frames may drop frames, consider --capture frames');
+  }
+  return warnings;
+}
+
+/**
+ * Launch headless browser used for recording, an offline browser can't
+ * load anything from the network. Unless the caller handles signals
+ * itself, Ctrl+C and SIGTERM close the browser.
+ */
+export async function launchBrowser(
+  options: { offline?: boolean; handleSignals?: boolean } = {}
+): Promise<Browser> {
+  const args = [
+    '--no-sandbox',
+    '--disable-setuid-sandbox',
+    '--disable-dev-shm-usage',
+    '--disable-gpu',
+    // SVG document of <object> is reachable from the page
+    '--allow-file-access-from-files',
+  ];
+  if (options.offline) {
+    // All HTTP requests go to a closed port, local files still load
+    args.push('--proxy-server=127.0.0.1:9', '--proxy-bypass-list=<-loopback>');
+  }
+  const handleSignals = options.handleSignals ?? true;
+  return puppeteer.launch({
+    headless: true,
+    args,
+    // Puppeteer exits the process on Ctrl+C, before files are cleaned up
+    handleSIGINT: handleSignals,
+    handleSIGTERM: handleSignals,
+    handleSIGHUP: handleSignals,
+  });
 }
 
 /**
  * Record SVG animation using Puppeteer
+ *
+ * In `frames` capture mode outputPath is a directory where numbered
+ * PNG frames (see FRAME_PATTERN) are written.
  */
 export async function recordAnimation(
   htmlPath: string,
   outputPath: string,
   options: RecorderOptions,
   onProgress?: (progress: number) => void
-): Promise<void> {
+): Promise<RecordingResult> {
   let browser: Browser | null = null;
   let page: Page | null = null;
   let recorder: PuppeteerScreenRecorder | null = null;
 
   try {
-    // Launch browser
-    browser = await puppeteer.launch({
-      headless: true,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-gpu',
-      ],
-    });
+    // Launch browser (unless shared browser is used), callers with a
+    // signal abort the recording on Ctrl+C
+    if (!options.browser) {
+      browser = await launchBrowser({ handleSignals: !options.signal });
+    }
 
-    page = await browser.newPage();
+    page = await (options.browser ?? browser!).newPage();
 
-    // Set viewport size
+    // Set viewport size, supersampled pages have more device pixels
+    const scale = options.scale ?? 1;
     await page.setViewport({
       width: options.width,
       height: options.height,
-      deviceScaleFactor: 1,
+      deviceScaleFactor: scale,
     });
 
+    // window.svgVideo used by scripts to signal start and end of the animation
+    await installSignals(page);
+
+    if (options.capture === 'frames') {
+      // Stop the clock before the page loads so every animation starts at 0
+      const client = await page.target().createCDPSession();
+      await client.send('Emulation.setVirtualTimePolicy', { policy: 'pause' });
+
+      await page.goto(`file://${htmlPath}`, {
+        waitUntil: 'load',
+        timeout: 30000,
+      });
+      await page.waitForSelector(ANIMATION_SELECTOR, { timeout: 10000 });
+
+      const timeline = await createTimeline(page, client);
+      const readyTime = options.waitForReady ? await waitForReadyFrame(page, timeline) : 0;
+      return await captureFrames(page, timeline, readyTime, outputPath, options, onProgress);
+    }
+
     // Initialize recorder
     recorder = new PuppeteerScreenRecorder(page, {
       fps: options.fps || 30,
-      videoBitrate: 5000,
+      videoBitrate: options.videoBitrate ?? 5000,
       videoFrame: {
-        width: options.width,
-        height: options.height,
+        width: Math.round(options.width * scale),
+        height: Math.round(options.height * scale),
       },
     });
 
@@ -60,10 +229,24 @@ export async function recordAnimation(
     });
 
     // Wait for image to load
-    await page.waitForSelector('img', { timeout: 10000 });
+    await page.waitForSelector(ANIMATION_SELECTOR, { timeout: 10000 });
     
     // Give extra time for SVG to fully initialize
-    await page.waitForTimeout(500);
+    await page.waitForTimeout(SETTLE_DELAY);
+
+    if (options.waitForReady && !(await waitForSignal(page, 'ready', READY_TIMEOUT))) {
+      throw new Error(readyTimeoutMessage());
+    }
+
+    // Skip the part of the animation before the start point, the animations
+    // of <img> and scripts can only be waited for
+    if (options.start) {
+      if (await isSeekable(page)) {
+        await seekAnimations(page, options.start, false);
+      } else {
+        await page.waitForTimeout(Math.max(0, options.start - SETTLE_DELAY));
+      }
+    }
 
     // Start recording
     await recorder.start(outputPath);
@@ -72,22 +255,37 @@ export async function recordAnimation(
     const duration = options.duration;
     const updateInterval = 1000; // Update every second
     let elapsed = 0;
+    let done = false;
 
     while (elapsed < duration) {
+      options.signal?.throwIfAborted();
       const waitTime = Math.min(updateInterval, duration - elapsed);
-      await page.waitForTimeout(waitTime);
-      elapsed += waitTime;
+      if (options.untilDone) {
+        const waitStart = Date.now();
+        done = await waitForSignal(page, 'done', waitTime);
+        elapsed += done ? Date.now() - waitStart : waitTime;
+      } else {
+        await page.waitForTimeout(waitTime);
+        elapsed += waitTime;
+      }
 
       // Report progress
       if (onProgress) {
         const progress = Math.min(100, Math.round((elapsed / duration) * 100));
-        onProgress(progress);
+        onProgress(done ? 100 : progress);
+      }
+      if (done) {
+        break;
       }
     }
 
     // Stop recording
     await recorder.stop();
+    return { duration: elapsed, done };
   } catch (error: any) {
+    if (options.signal?.aborted) {
+      throw options.signal.reason;
+    }
     throw new ProcessingError(
       `Failed to record animation: ${error.message}`
     );
@@ -118,3 +316,149 @@ export async function recordAnimation(
     }
   }
 }
+
+/**
+ * Check if animations of the page can be seeked: the SVG document is
+ * reachable from the page (inline SVG or <object>) and has no scripts
+ */
+async function isSeekable(page: Page): Promise<boolean> {
+  return page.evaluate((selector: string) => {
+    // Only the root of the animated SVG, nested <svg> elements share its timeline
+    const container = document.querySelector(selector);
+    const root = container instanceof HTMLObjectElement
+      ? container.contentDocument?.documentElement
+      : container?.querySelector(':scope > svg');
+    if (!root || typeof (root as SVGSVGElement).pauseAnimations !== 'function') {
+      return false;
+    }
+    return root.querySelector('script') === null && !root.hasAttribute('onload');
+  }, ANIMATION_SELECTOR);
+}
+
+/**
+ * Move SMIL and CSS animations of the page to the time in milliseconds,
+ * paused or playing from there
+ */
+async function seekAnimations(page: Page, time: number, pause: boolean): Promise<void> {
+  await page.evaluate((selector: string, time: number, pause: boolean) => {
+    const container = document.querySelector(selector);
+    const root = container instanceof HTMLObjectElement
+      ? container.contentDocument?.documentElement
+      : container?.querySelector(':scope > svg');
+    if (!root || typeof (root as SVGSVGElement).pauseAnimations !== 'function') {
+      return;
+    }
+    const svg = root as SVGSVGElement;
+    svg.pauseAnimations();
+    svg.setCurrentTime(time / 1000);
+    if (!pause) {
+      svg.unpauseAnimations();
+    }
+    // CSS animations and Web Animations inside the SVG
+    for (const animation of svg.ownerDocument.getAnimations()) {
+      if (pause) {
+        animation.pause();
+      }
+      animation.currentTime = time;
+    }
+  }, ANIMATION_SELECTOR, time, pause);
+}
+
+/**
+ * Advance the timeline until the page calls svgVideo.ready(),
+ * return time of the timeline when it's ready
+ */
+async function waitForReadyFrame(page: Page, timeline: Timeline): Promise<number> {
+  for (let time = 0; time <= READY_TIMEOUT; time += READY_STEP) {
+    await timeline.seek(time);
+    if (await isReady(page)) {
+      return time;
+    }
+  }
+  throw new Error(readyTimeoutMessage());
+}
+
+function readyTimeoutMessage(): string {
+  return `Animation did not call svgVideo.ready() within ${READY_TIMEOUT / 1000}s`;
+}
+
+/**
+ * Screenshot every frame at exactly offset + start + index / fps,
+ * offset is the time when the page is ready
+ */
+async function captureFrames(
+  page: Page,
+  timeline: Timeline,
+  offset: number,
+  outputDir: string,
+  options: RecorderOptions,
+  onProgress?: (progress: number) => void
+): Promise<RecordingResult> {
+  const fps = options.fps || 30;
+  const start = offset + (options.start ?? 0);
+  const count = frameCount(options.duration, fps);
+  const pattern = options.framePattern ?? FRAME_PATTERN;
+  let lastProgress = -1;
+
+  await mkdir(outputDir, { recursive: true });
+
+  for (let i = 0; i < count; i++) {
+    options.signal?.throwIfAborted();
+    await timeline.seek(start + (i * 1000) / fps);
+    // The frame at done() time is not captured
+    if (options.untilDone && i > 0 && (await isDone(page))) {
+      onProgress?.(100);
+      return { duration: (i * 1000) / fps, done: true };
+    }
+    await page.screenshot({
+      path: join(outputDir, frameFileName(FIRST_FRAME + i, pattern)),
+      type: 'png',
+      omitBackground: options.transparent ?? false,
+      clip: { x: 0, y: 0, width: options.width, height: options.height },
+    });
+
+    if (onProgress) {
+      const progress = Math.round(((i + 1) / count) * 100);
+      if (progress !== lastProgress) {
+        onProgress(progress);
+        lastProgress = progress;
+      }
+    }
+  }
+
+  return { duration: options.duration, done: false };
+}
+
+/**
+ * Create timeline for the loaded page. SMIL and CSS animations are seeked
+ * directly when the SVG document is reachable from the page (inline SVG or
+ * <object>), otherwise the browser virtual time is advanced frame by frame.
+ * Virtual time is used for SVGs with scripts too, so timers and
+ * requestAnimationFrame callbacks run.
+ */
+async function createTimeline(page: Page, client: CDPSession): Promise<Timeline> {
+  if (await isSeekable(page)) {
+    return {
+      seek: (time: number) => seekAnimations(page, time, true),
+    };
+  }
+
+  let currentTime = 0;
+  return {
+    async seek(time: number) {
+      const budget = time - currentTime;
+      if (budget <= 0) {
+        return;
+      }
+      const expired = new Promise<void>((resolve) => {
+        client.once('Emulation.virtualTimeBudgetExpired', () => resolve());
+      });
+      await client.send('Emulation.setVirtualTimePolicy', {
+        policy: 'advance',
+        budget,
+      });
+      await expired;
+      currentTime = time;
+    },
+  };
+}
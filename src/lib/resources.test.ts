@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { bundleResources } from './resources.js';
+import { analyzeSVGContent } from './svg-analyzer.js';
+import { ValidationError } from './utils.js';
+
+describe('bundleResources', () => {
+  let dir: string;
+  let svgPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'svg-video-resources-'));
+    svgPath = join(dir, 'animation.svg');
+    await mkdir(join(dir, 'fonts'));
+    await writeFile(join(dir, 'logo.png'), 'png');
+    await writeFile(join(dir, 'fonts', 'Brand.woff2'), 'woff2');
+    await writeFile(join(dir, 'fonts', 'Inter-SemiBoldItalic.ttf'), 'ttf');
+    await writeFile(join(dir, 'fonts', 'Interstate.ttf'), 'ttf');
+    await writeFile(
+      join(dir, 'sprites.svg'),
+      '<svg xmlns="http://www.w3.org/2000/svg"><symbol id="icon"><image href="logo.png"/></symbol></svg>'
+    );
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('inlines images, fonts and elements of other documents', async () => {
+    const bundle = await bundleResources(`
+      <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10">
+        <style>@font-face { font-family: Brand; src: url('fonts/Brand.woff2'); }</style>
+        <image href="logo.png"/>
+        <use href="sprites.svg#icon"/>
+        <image href="https://example.com/photo.jpg"/>
+      </svg>
+    `, svgPath, { inline: true });
+
+    expect(bundle.inlined).toBe(4);
+    expect(bundle.warnings).toEqual(['Remote image https://example.com/photo.jpg is not inlined']);
+    expect(bundle.svg).toContain('url("data:font/woff2;base64,d29mZjI=")');
+    expect(bundle.svg).toContain('<image href="data:image/png;base64,cG5n"/>');
+    expect(bundle.svg).toContain('<use href="#inlined-1-icon"/>');
+    expect(bundle.svg).toContain('<symbol id="inlined-1-icon">');
+    expect(analyzeSVGContent(bundle.svg).externalReferences).toEqual([
+      'https://example.com/photo.jpg',
+    ]);
+  });
+
+  it('fails on missing files', async () => {
+    const svg = '<svg xmlns="http://www.w3.org/2000/svg"><image href="missing.png"/></svg>';
+
+    await expect(bundleResources(svg, svgPath, { inline: true }))
+      .rejects.toThrow(ValidationError);
+  });
+
+  it('adds fonts of the fonts directory', async () => {
+    const bundle = await bundleResources(`
+      <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10">
+        <text font-family="'Inter', sans-serif">Hello</text>
+        <text style="font-family: Missing">World</text>
+        <image href="logo.png"/>
+      </svg>
+    `, svgPath, { fonts: join(dir, 'fonts') });
+    const font = pathToFileURL(join(dir, 'fonts', 'Inter-SemiBoldItalic.ttf')).href;
+
+    expect(bundle.svg).toContain(
+      `@font-face { font-family: "Inter"; src: url("${font}"); font-weight: 600; font-style: italic; }`
+    );
+    expect(bundle.svg).not.toContain('Interstate');
+    expect(bundle.svg).toContain(`href="${pathToFileURL(join(dir, 'logo.png')).href}"`);
+    expect(bundle.warnings).toEqual([
+      `Font "Missing" is not in ${join(dir, 'fonts')}, a system font is used`,
+    ]);
+  });
+});
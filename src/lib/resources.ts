@@ -0,0 +1,365 @@
+import { readdir, readFile } from 'fs/promises';
+import { basename, extname, join } from 'path';
+import { pathToFileURL } from 'url';
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+import {
+  CSS_URL_PATTERN,
+  findCSSResources,
+  ResourceKind,
+  resourcePath,
+} from './svg-analyzer.js';
+import { fileExists, isDirectory, ValidationError } from './utils.js';
+
+export interface BundleOptions {
+  /** Embed local resources as data URIs */
+  inline?: boolean;
+  /** Directory of font files, matched by the font-family names of the SVG */
+  fonts?: string;
+}
+
+export interface Bundle {
+  /** SVG source without relative references */
+  svg: string;
+  /** Number of embedded resources */
+  inlined: number;
+  warnings: string[];
+}
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.bmp': 'image/bmp',
+  '.svg': 'image/svg+xml',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+};
+
+const FONT_EXTENSIONS = ['.woff2', '.woff', '.ttf', '.otf'];
+
+// Suffixes of font file names, e.g. Inter-SemiBold.woff2
+const FONT_WEIGHTS: Record<string, number> = {
+  thin: 100,
+  extralight: 200,
+  ultralight: 200,
+  light: 300,
+  regular: 400,
+  normal: 400,
+  book: 400,
+  medium: 500,
+  semibold: 600,
+  demibold: 600,
+  bold: 700,
+  extrabold: 800,
+  ultrabold: 800,
+  black: 900,
+  heavy: 900,
+};
+
+const GENERIC_FAMILIES = new Set([
+  'serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'inherit', 'initial',
+]);
+
+/**
+ * Make the SVG independent of its directory: local images, fonts,
+ * stylesheets and <use> references are embedded as data URIs (inline) or
+ * referenced with absolute file URLs, and fonts of the fonts directory used
+ * by the SVG are added as @font-face rules. Missing files can't be embedded.
+ */
+export async function bundleResources(
+  svgContent: string,
+  svgPath: string,
+  options: BundleOptions = {}
+): Promise<Bundle> {
+  const doc = new DOMParser().parseFromString(svgContent, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (!root || root.tagName !== 'svg') {
+    throw new ValidationError('Invalid SVG file: no <svg> root element found');
+  }
+  if (options.fonts && !(await isDirectory(options.fonts))) {
+    throw new ValidationError(`Fonts directory not found: ${options.fonts}`);
+  }
+
+  const bundle: Bundle = { svg: '', inlined: 0, warnings: [] };
+  const fontFiles = options.fonts ? await listFonts(options.fonts) : [];
+  // Elements copied from other documents by <use>, by their URL
+  const imported = new Map<string, string>();
+  let defs: Element | null = null;
+
+  // Return URL of a local file: data URI or absolute file URL, a missing
+  // font is looked up in the fonts directory
+  const fileURL = async (url: string, base: string, kind: ResourceKind): Promise<string> => {
+    let path = resourcePath(base, url)!;
+    if (!(await fileExists(path))) {
+      const font = fontFiles.find((file) => basename(file) === basename(path));
+      if (kind === 'font' && font) {
+        path = font;
+      } else if (options.inline) {
+        throw new ValidationError(`Can't inline missing ${kind} ${url} (${path})`);
+      } else {
+        return pathToFileURL(path).href + fragment(url);
+      }
+    }
+    if (!options.inline) {
+      return pathToFileURL(path).href + fragment(url);
+    }
+    bundle.inlined++;
+    const data = extname(path).toLowerCase() === '.css'
+      ? Buffer.from(await bundleCSS(await readFile(path, 'utf-8'), path))
+      : await readFile(path);
+    return dataURI(path, data) + fragment(url);
+  };
+
+  // Rewrite url() and @import of CSS, paths are relative to base
+  const bundleCSS = async (css: string, base: string): Promise<string> => {
+    const kinds = new Map<string, ResourceKind>();
+    findCSSResources(css, (url, kind) => kinds.set(url, kind));
+    let result = '';
+    let last = 0;
+    for (const match of css.matchAll(CSS_URL_PATTERN)) {
+      const url = (match[3] ?? match[5]).trim();
+      const stylesheet = Boolean(match[1]) || match[5] !== undefined;
+      const kind = kinds.get(url) ?? (stylesheet ? 'stylesheet' : 'image');
+      const replacement = await resourceURL(url, base, kind);
+      result += css.slice(last, match.index);
+      result += replacement === url
+        ? match[0]
+        : `${stylesheet ? '@import ' : ''}url(${JSON.stringify(replacement)})`;
+      last = match.index! + match[0].length;
+    }
+    return result + css.slice(last);
+  };
+
+  // URLs of fragments, data URIs and links stay as they are
+  const resourceURL = async (url: string, base: string, kind: ResourceKind): Promise<string> => {
+    if (!url || url.startsWith('#') || /^data:/i.test(url)) {
+      return url;
+    }
+    if (resourcePath(base, url) === null) {
+      if (options.inline) {
+        bundle.warnings.push(`Remote ${kind} ${url} is not inlined`);
+      }
+      return url;
+    }
+    return fileURL(url, base, kind);
+  };
+
+  // Copy element of another document referenced by <use> into <defs>
+  const importElement = async (url: string, base: string): Promise<string> => {
+    const path = resourcePath(base, url)!;
+    const key = `${path}#${url.split('#')[1] ?? ''}`;
+    if (imported.has(key)) {
+      return imported.get(key)!;
+    }
+    if (!(await fileExists(path))) {
+      throw new ValidationError(`Can't inline missing use ${url} (${path})`);
+    }
+    const source = new DOMParser().parseFromString(await readFile(path, 'utf-8'), 'image/svg+xml');
+    const id = url.split('#')[1];
+    const target = id ? findById(source.documentElement, id) : source.documentElement;
+    if (!target) {
+      throw new ValidationError(`Element #${id} not found in ${path}`);
+    }
+    const copy = doc.importNode(target, true) as Element;
+    const newId = `inlined-${imported.size + 1}${id ? `-${id}` : ''}`;
+    copy.setAttribute('id', newId);
+    if (!defs) {
+      defs = doc.createElementNS(SVG_NAMESPACE, 'defs');
+      root.insertBefore(defs, root.firstChild);
+    }
+    defs.appendChild(copy);
+    imported.set(key, `#${newId}`);
+    bundle.inlined++;
+    // References of the copy are relative to its document
+    await bundleElement(copy, path);
+    return `#${newId}`;
+  };
+
+  const bundleElement = async (element: Element, base: string): Promise<void> => {
+    for (const attribute of Array.from(element.attributes)) {
+      let value = attribute.value;
+      if (attribute.name === 'href' || attribute.name === 'xlink:href') {
+        if (element.localName === 'a') {
+          continue;
+        }
+        const local = value && !value.startsWith('#') && !/^data:/i.test(value) &&
+          resourcePath(base, value) !== null;
+        value = element.localName === 'use' && options.inline && local
+          ? await importElement(value, base)
+          : await resourceURL(value, base, element.localName === 'use' ? 'use' : 'image');
+      } else if (value.includes('url(')) {
+        value = await bundleCSS(value, base);
+      }
+      if (value !== attribute.value) {
+        element.setAttribute(attribute.name, value);
+      }
+    }
+    if (element.localName === 'style') {
+      const css = element.textContent ?? '';
+      const bundled = await bundleCSS(css, base);
+      if (bundled !== css) {
+        element.textContent = bundled;
+      }
+    }
+    for (const child of Array.from(element.childNodes)) {
+      if (child.nodeType === 1) {
+        await bundleElement(child as Element, base);
+      }
+    }
+  };
+
+  await bundleElement(root, svgPath);
+
+  if (options.fonts) {
+    const css = await fontFaces(root, fontFiles, options, bundle);
+    if (css) {
+      const style = doc.createElementNS(SVG_NAMESPACE, 'style');
+      style.textContent = css;
+      root.insertBefore(style, root.firstChild);
+    }
+  }
+
+  bundle.svg = new XMLSerializer().serializeToString(doc);
+  return bundle;
+}
+
+/**
+ * Return @font-face rules of the font files matching font-family names used
+ * by the SVG, e.g. Inter.woff2 and Inter-Bold.woff2 for "Inter"
+ */
+async function fontFaces(
+  root: Element,
+  files: string[],
+  options: BundleOptions,
+  bundle: Bundle
+): Promise<string> {
+  const { used, declared } = fontFamilies(root);
+  const rules: string[] = [];
+  for (const family of used) {
+    if (declared.has(normalize(family))) {
+      continue;
+    }
+    const faces = files
+      .map((file) => ({ file, face: fontFace(family, file) }))
+      .filter(({ face }) => face !== null);
+    if (faces.length === 0) {
+      bundle.warnings.push(`Font "${family}" is not in ${options.fonts}, a system font is used`);
+      continue;
+    }
+    for (const { file, face } of faces) {
+      let url = pathToFileURL(file).href;
+      if (options.inline) {
+        url = dataURI(file, await readFile(file));
+        bundle.inlined++;
+      }
+      rules.push(
+        `@font-face { font-family: ${JSON.stringify(family)}; src: url(${JSON.stringify(url)}); ` +
+        `font-weight: ${face!.weight}; font-style: ${face!.style}; }`
+      );
+    }
+  }
+  return rules.join('\n');
+}
+
+/**
+ * Return weight and style of a font file of the family, null if the file
+ * belongs to another family
+ */
+function fontFace(family: string, file: string): { weight: number; style: string } | null {
+  const name = normalize(basename(file, extname(file)));
+  const prefix = normalize(family);
+  if (!name.startsWith(prefix)) {
+    return null;
+  }
+  let suffix = name.slice(prefix.length);
+  const italic = suffix.endsWith('italic');
+  if (italic) {
+    suffix = suffix.slice(0, -'italic'.length);
+  }
+  const weight = suffix === '' ? 400 : FONT_WEIGHTS[suffix];
+  return weight === undefined ? null : { weight, style: italic ? 'italic' : 'normal' };
+}
+
+/**
+ * Return font families used by the SVG and the ones it declares with
+ * @font-face
+ */
+function fontFamilies(root: Element): { used: Set<string>; declared: Set<string> } {
+  const used = new Set<string>();
+  const declared = new Set<string>();
+  const addFamilies = (value: string, target: Set<string>) => {
+    for (const name of value.split(',')) {
+      const family = name.trim().replace(/^(['"])(.*)\1$/, '$2').trim();
+      if (family && !GENERIC_FAMILIES.has(family.toLowerCase())) {
+        target.add(family);
+      }
+    }
+  };
+  const addCSS = (css: string) => {
+    for (const [block] of css.matchAll(/@font-face\s*\{[^}]*\}/gi)) {
+      const match = block.match(/font-family\s*:\s*([^;}]+)/i);
+      if (match) {
+        addFamilies(match[1], declared);
+      }
+    }
+    const rules = css.replace(/@font-face\s*\{[^}]*\}/gi, '');
+    for (const match of rules.matchAll(/font-family\s*:\s*([^;}]+)/gi)) {
+      addFamilies(match[1], used);
+    }
+  };
+
+  for (const element of [root, ...Array.from(root.getElementsByTagName('*'))]) {
+    const attribute = element.getAttribute('font-family');
+    if (attribute) {
+      addFamilies(attribute, used);
+    }
+    addCSS(element.getAttribute('style') ?? '');
+    if (element.localName === 'style') {
+      addCSS(element.textContent ?? '');
+    }
+  }
+  return {
+    used,
+    declared: new Set([...declared].map(normalize)),
+  };
+}
+
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+function findById(root: Element, id: string): Element | null {
+  for (const element of [root, ...Array.from(root.getElementsByTagName('*'))]) {
+    if (element.getAttribute('id') === id) {
+      return element;
+    }
+  }
+  return null;
+}
+
+function dataURI(path: string, data: Buffer): string {
+  const type = MIME_TYPES[extname(path).toLowerCase()] ?? 'application/octet-stream';
+  return `data:${type};base64,${data.toString('base64')}`;
+}
+
+function fragment(url: string): string {
+  const index = url.indexOf('#');
+  return index >= 0 ? url.slice(index) : '';
+}
+
+async function listFonts(directory: string): Promise<string[]> {
+  const files = await readdir(directory);
+  return files
+    .filter((file) => FONT_EXTENSIONS.includes(extname(file).toLowerCase()))
+    .sort()
+    .map((file) => join(directory, file));
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createRenderServer, parseMultipart, RenderServer } from './server.js';
+
+const svg = (dur: string) => [
+  '<svg xmlns="http://www.w3.org/2000/svg" width="100" height="100">',
+  `  <rect width="10" height="10"><animate attributeName="x" to="90" dur="${dur}"/></rect>`,
+  '</svg>',
+].join('\n');
+
+describe('parseMultipart', () => {
+  it('returns fields of the form', () => {
+    const body = Buffer.from([
+      '--XYZ',
+      'Content-Disposition: form-data; name="svg"; filename="logo.svg"',
+      'Content-Type: image/svg+xml',
+      '',
+      '<svg/>',
+      '--XYZ',
+      'Content-Disposition: form-data; name="options"',
+      '',
+      '{"fps":24}',
+      '--XYZ--',
+      '',
+    ].join('\r\n'));
+
+    expect(parseMultipart(body, 'XYZ')).toEqual(new Map([
+      ['svg', '<svg/>'],
+      ['options', '{"fps":24}'],
+    ]));
+  });
+});
+
+describe('createRenderServer', () => {
+  let server: RenderServer;
+  let url: string;
+
+  beforeAll(async () => {
+    // Jobs are rejected before they need the browser
+    server = createRenderServer({ maxDuration: 10, maxSize: 1024, warm: false });
+    const address = await server.listen(0);
+    url = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  const post = (body: string, type = 'application/json') => fetch(`${url}/jobs`, {
+    method: 'POST',
+    headers: { 'Content-Type': type },
+    body,
+  });
+
+  it('reports the queue', async () => {
+    const response = await fetch(`${url}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', queued: 0, running: 0 });
+  });
+
+  it('rejects recordings longer than the limit', async () => {
+    const response = await post(JSON.stringify({ svg: svg('5s'), options: { loops: 3 } }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: {
+        category: 'Validation Error',
+        exitCode: 1,
+        message: 'Recording of 15s is longer than the limit of the server (10s)',
+      },
+    });
+  });
+
+  it('rejects options with paths on the server', async () => {
+    const options = encodeURIComponent(JSON.stringify({ audio: '/etc/passwd' }));
+    const response = await fetch(`${url}/jobs?options=${options}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'image/svg+xml' },
+      body: svg('1s'),
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.message).toBe('Option not allowed by the server: audio');
+  });
+
+  it('rejects SVGs that read files of the server', async () => {
+    const scripted = svg('1s').replace('</svg>', '<script>fetch("file:///etc/passwd")</script></svg>');
+    const image = svg('1s').replace('</svg>', '<image href="file:///etc/passwd"/></svg>');
+    const style = JSON.stringify({
+      svg: svg('1s'),
+      options: { style: 'svg { background: url(/etc/passwd) }' },
+    });
+
+    const responses = [
+      await post(scripted, 'image/svg+xml'),
+      await post(image, 'image/svg+xml'),
+      await post(style),
+    ];
+
+    expect(responses.map((response) => response.status)).toEqual([400, 400, 400]);
+    expect(await Promise.all(responses.map(async (response) => {
+      return (await response.json()).error.message;
+    }))).toEqual([
+      'Scripts are not allowed by the server',
+      'External resources are not allowed by the server, embed them as data URIs: ' +
+        'file:///etc/passwd',
+      'External resources are not allowed by the server, embed them as data URIs: /etc/passwd',
+    ]);
+    expect(server.jobs.size).toBe(0);
+  });
+
+  it('rejects large requests', async () => {
+    const response = await post(JSON.stringify({ svg: svg('1s') + ' '.repeat(2048) }));
+
+    expect(response.status).toBe(413);
+  });
+
+  it('returns 404 for unknown jobs', async () => {
+    const response = await fetch(`${url}/jobs/missing`);
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.message).toBe('Job not found: missing');
+  });
+});
@@ -0,0 +1,578 @@
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { Browser } from 'puppeteer';
+import { convert, ConvertOptions, ConvertProgress, ConvertResult } from './converter.js';
+import { launchBrowser } from './recorder.js';
+import {
+  analyzeSVGContent,
+  findCSSResources,
+  loadedResources,
+  SVGAnalysis,
+} from './svg-analyzer.js';
+import { isImagePath } from './background.js';
+import { OutputFormat, OUTPUT_FORMATS } from './video-processor.js';
+import {
+  deleteFile,
+  errorCategory,
+  getTempFilePath,
+  ProcessingError,
+  ValidationError,
+} from './utils.js';
+
+/**
+ * Conversion options accepted by the server, paths on the server (audio,
+ * style files, background images) are not allowed, SVGs are always rendered
+ * in img mode
+ */
+export type JobOptions = Omit<
+  ConvertOptions,
+  'input' | 'svg' | 'output' | 'audio' | 'render' | 'signal' | 'browser' | 'onLog' |
+  'onWarning' | 'onProgress'
+>;
+
+const JOB_OPTIONS: (keyof JobOptions)[] = [
+  'width', 'height', 'fit', 'anchor', 'duration', 'start', 'end', 'maxDuration', 'loops',
+  'length', 'crossfade', 'fps', 'scale', 'style', 'capture', 'format', 'encoder',
+  'preset', 'qualityPreset', 'dither', 'transparent', 'background', 'padColor',
+];
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  options: JobOptions;
+  progress: ConvertProgress | null;
+  warnings: string[];
+  result?: ConvertResult;
+  error?: { category: string; exitCode: number; message: string };
+  createdAt: number;
+  /** Time when the job and its output are deleted, set when the job ends */
+  expiresAt?: number;
+}
+
+export interface ServerOptions {
+  /** Number of jobs rendered at the same time (default: 2) */
+  concurrency?: number;
+  /** Longest recording in seconds (default: 60) */
+  maxDuration?: number;
+  /** Largest request body in bytes (default: 10 MB) */
+  maxSize?: number;
+  /** Seconds a finished job and its output are kept (default: 3600) */
+  jobTTL?: number;
+  /** Launch the browser before the first job (default: true) */
+  warm?: boolean;
+  onLog?: (message: string) => void;
+}
+
+export interface RenderServer {
+  server: Server;
+  jobs: Map<string, Job>;
+  listen(port: number, host?: string): Promise<AddressInfo>;
+  close(): Promise<void>;
+}
+
+const MIME_TYPES: Record<OutputFormat, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  apng: 'image/apng',
+};
+
+// Expired jobs are removed once a minute
+const SWEEP_INTERVAL = 60 * 1000;
+
+/**
+ * Error with HTTP status code of the response
+ */
+class HTTPError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HTTPError';
+  }
+}
+
+/**
+ * Create HTTP server that renders SVGs in a queue of jobs:
+ *
+ *   POST   /jobs             SVG as JSON {svg, options}, multipart form
+ *                            (svg and options fields) or image/svg+xml body
+ *                            with options in the query string
+ *   GET    /jobs/:id         status, progress and result of the job
+ *   GET    /jobs/:id/result  rendered file
+ *   DELETE /jobs/:id         cancel the job and delete its output
+ *   GET    /health           number of queued and running jobs
+ */
+export function createRenderServer(options: ServerOptions = {}): RenderServer {
+  const concurrency = Math.max(1, options.concurrency ?? 2);
+  const maxDuration = (options.maxDuration ?? 60) * 1000;
+  const maxSize = options.maxSize ?? 10 * 1024 * 1024;
+  const jobTTL = (options.jobTTL ?? 3600) * 1000;
+  const log = (message: string) => options.onLog?.(message);
+
+  const jobs = new Map<string, Job>();
+  const queue: { job: Job; svg: string }[] = [];
+  const controllers = new Map<string, AbortController>();
+  const outputs = new Map<string, string>();
+  let running = 0;
+
+  // Shared browser is launched once and relaunched when it crashes
+  let browser: Promise<Browser> | null = null;
+  const getBrowser = () => {
+    if (!browser) {
+      // close() shuts the browser down
+      browser = launchBrowser({ offline: true, handleSignals: false }).catch((error) => {
+        throw new ProcessingError(`Failed to launch browser: ${error.message}`);
+      });
+      browser.then((instance) => {
+        instance.on('disconnected', () => {
+          browser = null;
+        });
+      }, () => {
+        browser = null;
+      });
+    }
+    return browser;
+  };
+
+  const finish = (job: Job, status: JobStatus) => {
+    job.status = status;
+    job.expiresAt = Date.now() + jobTTL;
+  };
+
+  const next = () => {
+    while (running < concurrency && queue.length > 0) {
+      const { job, svg } = queue.shift()!;
+      running++;
+      runJob(job, svg).finally(() => {
+        running--;
+        next();
+      });
+    }
+  };
+
+  const runJob = async (job: Job, svg: string) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    const output = getTempFilePath(job.options.format ?? 'mp4');
+    outputs.set(job.id, output);
+    job.status = 'running';
+    log(`Job ${job.id} started`);
+    try {
+      job.result = await convert({
+        ...job.options,
+        svg,
+        output,
+        // Uploads can't run scripts or load files of the server
+        render: 'img',
+        // svgVideo.done() can't record longer than the limit
+        maxDuration: Math.min(job.options.maxDuration ?? Infinity, maxDuration / 1000),
+        browser: await getBrowser(),
+        signal: controller.signal,
+        onWarning: (warning) => job.warnings.push(warning),
+        onProgress: (progress) => {
+          job.progress = progress;
+        },
+      });
+      if (!jobs.has(job.id)) {
+        // Removed while the output was written
+        await deleteFile(output);
+        return;
+      }
+      finish(job, 'done');
+      log(`Job ${job.id} done`);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        finish(job, 'cancelled');
+      } else {
+        const { label, exitCode } = errorCategory(error);
+        const message = error instanceof Error ? error.message : String(error);
+        job.error = { category: label, exitCode, message };
+        finish(job, 'failed');
+        log(`Job ${job.id} failed: ${message}`);
+      }
+      await deleteFile(output);
+    } finally {
+      controllers.delete(job.id);
+    }
+  };
+
+  const removeJob = async (id: string) => {
+    controllers.get(id)?.abort();
+    const index = queue.findIndex((entry) => entry.job.id === id);
+    if (index >= 0) {
+      queue.splice(index, 1);
+    }
+    jobs.delete(id);
+    const output = outputs.get(id);
+    outputs.delete(id);
+    if (output) {
+      await deleteFile(output);
+    }
+  };
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const job of jobs.values()) {
+      if (job.expiresAt !== undefined && job.expiresAt <= now) {
+        log(`Job ${job.id} expired`);
+        removeJob(job.id).catch(() => {
+          // Output is deleted again on close
+        });
+      }
+    }
+  }, SWEEP_INTERVAL);
+  sweep.unref();
+
+  const submit = async (request: IncomingMessage, url: URL) => {
+    const { svg, options } = parseSubmission(
+      request.headers['content-type'] ?? '',
+      await readBody(request, maxSize),
+      url
+    );
+    const jobOptions = pickJobOptions(options);
+    // Fail early on invalid SVG, unsafe uploads and animations longer than the limit
+    const analysis = analyzeSVGContent(svg);
+    checkSelfContained(analysis, jobOptions);
+    const duration = expectedDuration(analysis, jobOptions);
+    if (duration !== null && duration > maxDuration) {
+      throw new ValidationError(
+        `Recording of ${duration / 1000}s is longer than the limit of the server ` +
+        `(${maxDuration / 1000}s)`
+      );
+    }
+
+    const job: Job = {
+      id: randomUUID(),
+      status: 'queued',
+      options: jobOptions,
+      progress: null,
+      warnings: [],
+      createdAt: Date.now(),
+    };
+    jobs.set(job.id, job);
+    queue.push({ job, svg });
+    log(`Job ${job.id} queued`);
+    next();
+    return job;
+  };
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const [resource, id, action] = url.pathname.split('/').filter(Boolean);
+
+    if (resource === 'health' && !id) {
+      allowMethods(request, ['GET']);
+      sendJSON(response, 200, { status: 'ok', queued: queue.length, running });
+      return;
+    }
+    if (resource !== 'jobs') {
+      throw new HTTPError(404, `Not found: ${url.pathname}`);
+    }
+    if (!id) {
+      allowMethods(request, ['POST']);
+      const job = await submit(request, url);
+      response.setHeader('Location', `/jobs/${job.id}`);
+      sendJSON(response, 202, describeJob(job));
+      return;
+    }
+
+    const job = jobs.get(id);
+    if (!job) {
+      throw new HTTPError(404, `Job not found: ${id}`);
+    }
+    if (action === 'result') {
+      allowMethods(request, ['GET']);
+      if (job.status !== 'done') {
+        throw new HTTPError(409, `Job is ${job.status}`);
+      }
+      await sendFile(response, outputs.get(id)!, job.result!.format as OutputFormat);
+    } else if (action) {
+      throw new HTTPError(404, `Not found: ${url.pathname}`);
+    } else if (request.method === 'DELETE') {
+      await removeJob(id);
+      if (job.status === 'queued' || job.status === 'running') {
+        job.status = 'cancelled';
+      }
+      sendJSON(response, 200, describeJob(job));
+    } else {
+      allowMethods(request, ['GET', 'DELETE']);
+      sendJSON(response, 200, describeJob(job));
+    }
+  };
+
+  const server = createServer((request, response) => {
+    handle(request, response).catch((error) => {
+      if (response.headersSent) {
+        // Download failed after the headers, e.g. the job expired
+        response.destroy();
+        return;
+      }
+      const status = error instanceof HTTPError
+        ? error.status
+        : error instanceof ValidationError ? 400 : 500;
+      const { label, exitCode } = errorCategory(error);
+      sendJSON(response, status, {
+        error: { category: label, exitCode, message: error.message },
+      });
+    });
+  });
+
+  return {
+    server,
+    jobs,
+    listen(port, host = '127.0.0.1') {
+      if (options.warm ?? true) {
+        getBrowser().catch(() => {
+          // Launched again by the first job, which reports the error
+        });
+      }
+      return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => {
+          server.off('error', reject);
+          resolve(server.address() as AddressInfo);
+        });
+      });
+    },
+    async close() {
+      clearInterval(sweep);
+      queue.length = 0;
+      await Promise.all([...jobs.keys()].map(removeJob));
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      if (browser) {
+        const instance = await browser.catch(() => null);
+        await instance?.close().catch(() => {
+          // Ignore errors during cleanup
+        });
+      }
+    },
+  };
+}
+
+/**
+ * Return recording length of the job in milliseconds, null if it's known
+ * only after rendering (svgVideo.done() is limited with maxDuration)
+ */
+export function expectedDuration(analysis: SVGAnalysis, options: JobOptions): number | null {
+  if (options.length !== undefined) {
+    return Number(options.length) * 1000;
+  }
+  let duration: number | null;
+  if (options.end !== undefined) {
+    duration = (Number(options.end) - Number(options.start ?? 0)) * 1000;
+  } else if (options.duration) {
+    duration = Number(options.duration) * 1000;
+  } else {
+    duration = analysis.loopDuration ?? analysis.duration;
+  }
+  if (duration !== null && options.loops !== undefined) {
+    duration *= Number(options.loops);
+  }
+  return duration;
+}
+
+/**
+ * Check that the uploaded SVG and its CSS options have no scripts and
+ * don't reference anything outside of them, e.g. file:///etc/passwd drawn
+ * into the video
+ */
+function checkSelfContained(analysis: SVGAnalysis, options: JobOptions): void {
+  if (analysis.hasScripts) {
+    throw new ValidationError('Scripts are not allowed by the server');
+  }
+  const urls = loadedResources(analysis.resources).map((resource) => resource.url);
+  for (const css of [options.style, options.background]) {
+    if (typeof css === 'string') {
+      findCSSResources(css, (url) => urls.push(url.trim()));
+    }
+  }
+  const external = urls.find((url) => url && !url.startsWith('#') && !/^data:/i.test(url));
+  if (external !== undefined) {
+    throw new ValidationError(
+      `External resources are not allowed by the server, embed them as data URIs: ${external}`
+    );
+  }
+}
+
+/**
+ * Return SVG source and options of the job from the request body
+ */
+export function parseSubmission(
+  contentType: string,
+  body: Buffer,
+  url: URL
+): { svg: string; options: Record<string, unknown> } {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  let svg: unknown;
+  let options: unknown = {};
+
+  if (type === 'application/json') {
+    const data = parseJSON(body.toString('utf-8'), 'Request body');
+    svg = data?.svg;
+    options = data?.options ?? {};
+  } else if (type === 'multipart/form-data') {
+    const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+    if (!boundary) {
+      throw new ValidationError('Multipart request without boundary');
+    }
+    const fields = parseMultipart(body, boundary[1] ?? boundary[2]);
+    svg = fields.get('svg');
+    const json = fields.get('options');
+    options = json ? parseJSON(json, 'Options') : {};
+  } else if (type === 'image/svg+xml') {
+    svg = body.toString('utf-8');
+    const json = url.searchParams.get('options');
+    options = json ? parseJSON(json, 'Options') : {};
+  } else {
+    throw new HTTPError(
+      415,
+      'Unsupported content type (expected application/json, multipart/form-data or image/svg+xml)'
+    );
+  }
+
+  if (typeof svg !== 'string' || !svg.trim()) {
+    throw new ValidationError('Request has no SVG');
+  }
+  if (!options || typeof options !== 'object' || Array.isArray(options)) {
+    throw new ValidationError('Options must be a JSON object');
+  }
+  return { svg, options: options as Record<string, unknown> };
+}
+
+/**
+ * Return text fields and files of multipart/form-data body
+ */
+export function parseMultipart(body: Buffer, boundary: string): Map<string, string> {
+  const fields = new Map<string, string>();
+  const delimiter = Buffer.from(`--${boundary}`);
+  let start = body.indexOf(delimiter);
+  while (start >= 0) {
+    start += delimiter.length;
+    const end = body.indexOf(delimiter, start);
+    if (end < 0) {
+      break;
+    }
+    // Part is CRLF, headers, empty line, content and CRLF
+    const part = body.subarray(start, end);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd >= 0) {
+      const headers = part.subarray(0, headerEnd).toString('utf-8');
+      const name = headers.match(/content-disposition:[^\r\n]*\bname="([^"]*)"/i);
+      if (name) {
+        const content = part.subarray(headerEnd + 4, part.length - 2);
+        fields.set(name[1], content.toString('utf-8'));
+      }
+    }
+    start = end;
+  }
+  return fields;
+}
+
+function pickJobOptions(source: Record<string, unknown>): JobOptions {
+  const options: JobOptions = {};
+  for (const key of Object.keys(source)) {
+    if (!JOB_OPTIONS.includes(key as keyof JobOptions)) {
+      throw new ValidationError(`Option not allowed by the server: ${key}`);
+    }
+    Object.assign(options, { [key]: source[key] } as Partial<JobOptions>);
+  }
+  if (typeof options.background === 'string' && isImagePath(options.background)) {
+    throw new ValidationError('Background image files are not allowed by the server');
+  }
+  // Only single files can be downloaded
+  if (options.format !== undefined && !OUTPUT_FORMATS.includes(options.format)) {
+    throw new ValidationError(
+      `Invalid output format: ${options.format} (expected one of ${OUTPUT_FORMATS.join(', ')})`
+    );
+  }
+  return options;
+}
+
+/**
+ * Return job as sent to clients, without the analysis and paths on the server
+ */
+function describeJob(job: Job) {
+  if (!job.result) {
+    return job;
+  }
+  const { analysis, outputPath, sequenceInfoPath, ...result } = job.result;
+  return { ...job, result: { ...result, url: `/jobs/${job.id}/result` } };
+}
+
+function parseJSON(text: string, name: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ValidationError(`${name} is not valid JSON`);
+  }
+}
+
+function readBody(request: IncomingMessage, maxSize: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      // Rest of a large body is read and dropped so the client gets the response
+      if (size <= maxSize) {
+        chunks.push(chunk);
+      }
+    });
+    request.on('end', () => {
+      if (size > maxSize) {
+        reject(new HTTPError(413, `Request is larger than ${maxSize} bytes`));
+      } else {
+        resolve(Buffer.concat(chunks));
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+function allowMethods(request: IncomingMessage, methods: string[]): void {
+  if (!methods.includes(request.method ?? 'GET')) {
+    throw new HTTPError(405, `Method ${request.method} not allowed`);
+  }
+}
+
+function sendJSON(response: ServerResponse, status: number, data: unknown): void {
+  const body = JSON.stringify(data);
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(body),
+  });
+  response.end(body);
+}
+
+async function sendFile(
+  response: ServerResponse,
+  path: string,
+  format: OutputFormat
+): Promise<void> {
+  let size: number;
+  try {
+    size = (await stat(path)).size;
+  } catch {
+    throw new ProcessingError('Output file of the job is missing');
+  }
+  response.writeHead(200, {
+    'Content-Type': MIME_TYPES[format],
+    'Content-Length': size,
+    'Content-Disposition': `attachment; filename="video.${format}"`,
+  });
+  await new Promise<void>((resolve, reject) => {
+    const stream = createReadStream(path).on('error', reject);
+    // Client disconnected before the end of the file
+    response.on('close', () => {
+      stream.destroy();
+      resolve();
+    });
+    stream.pipe(response).on('finish', resolve);
+  });
+}
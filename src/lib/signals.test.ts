@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { findSignals } from './signals.js';
+
+describe('findSignals', () => {
+  it('finds calls of the svgVideo object', () => {
+    expect(findSignals('loadData().then(() => window.svgVideo.ready());')).toEqual({
+      ready: true,
+      done: false,
+    });
+    expect(findSignals('if (last) { svgVideo . done(); }')).toEqual({
+      ready: false,
+      done: true,
+    });
+  });
+
+  it('finds custom events', () => {
+    expect(findSignals("document.dispatchEvent(new CustomEvent('svgvideo:done'));")).toEqual({
+      ready: false,
+      done: true,
+    });
+  });
+
+  it('ignores scripts without signals', () => {
+    expect(findSignals('requestAnimationFrame(draw); const readyState = 1;')).toEqual({
+      ready: false,
+      done: false,
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { Page, TimeoutError } from 'puppeteer';
+
+/**
+ * Signals the SVG scripts send to the recorder:
+ * - `ready` - `window.svgVideo.ready()` or `svgvideo:ready` event, recording
+ *   starts after it
+ * - `done` - `window.svgVideo.done()` or `svgvideo:done` event, recording
+ *   stops at it
+ */
+export interface AnimationSignals {
+  ready: boolean;
+  done: boolean;
+}
+
+/** Name of the custom event that marks the animation ready to record */
+export const READY_EVENT = 'svgvideo:ready';
+
+/** Name of the custom event that ends the recording */
+export const DONE_EVENT = 'svgvideo:done';
+
+/**
+ * Find which signals are used by the script source code
+ */
+export function findSignals(script: string): AnimationSignals {
+  const uses = (name: string, event: string) => {
+    const call = new RegExp(`svgVideo\\s*\\.\\s*${name}\\b`);
+    return call.test(script) || script.includes(event);
+  };
+  return {
+    ready: uses('ready', READY_EVENT),
+    done: uses('done', DONE_EVENT),
+  };
+}
+
+/**
+ * Define window.svgVideo before any script of the page runs. Frames
+ * (the <object> document) share the object of the top window.
+ */
+export async function installSignals(page: Page): Promise<void> {
+  await page.evaluateOnNewDocument((readyEvent: string, doneEvent: string) => {
+    const global = window as any;
+    let api: any = null;
+    try {
+      if (window.top !== window) {
+        api = (window.top as any).svgVideo ?? null;
+      }
+    } catch {
+      // Cross-origin frame, signals of the frame are not seen by the recorder
+    }
+    if (!api) {
+      api = {
+        isReady: false,
+        isDone: false,
+        ready() {
+          api.isReady = true;
+        },
+        done() {
+          api.isReady = true;
+          api.isDone = true;
+        },
+      };
+    }
+    global.svgVideo = api;
+    // Events dispatched on the document or bubbling from elements
+    window.addEventListener(readyEvent, () => api.ready());
+    window.addEventListener(doneEvent, () => api.done());
+  }, READY_EVENT, DONE_EVENT);
+}
+
+/**
+ * Wait in real time until the page sends the signal, return false
+ * when the timeout (in milliseconds) expires first
+ */
+export async function waitForSignal(
+  page: Page,
+  signal: keyof AnimationSignals,
+  timeout: number
+): Promise<boolean> {
+  try {
+    await page.waitForFunction((signal: string) => {
+      const api = (window as any).svgVideo;
+      return Boolean(signal === 'ready' ? api?.isReady : api?.isDone);
+    }, { timeout, polling: 50 }, signal);
+    return true;
+  } catch (error) {
+    if (error instanceof TimeoutError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check if the page called svgVideo.ready()
+ */
+export async function isReady(page: Page): Promise<boolean> {
+  return page.evaluate(() => Boolean((window as any).svgVideo?.isReady));
+}
+
+/**
+ * Check if the page called svgVideo.done()
+ */
+export async function isDone(page: Page): Promise<boolean> {
+  return page.evaluate(() => Boolean((window as any).svgVideo?.isDone));
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { DOMParser } from '@xmldom/xmldom';
+import { parseTimeValues, resolveTimings } from './smil-timing.js';
+
+function animations(markup: string): Element[] {
+  const doc = new DOMParser().parseFromString(
+    `<svg xmlns="http://www.w3.org/2000/svg">${markup}</svg>`,
+    'image/svg+xml'
+  );
+  return Array.from(doc.getElementsByTagName('animate')) as unknown as Element[];
+}
+
+describe('parseTimeValues', () => {
+  it('parses begin lists', () => {
+    expect(parseTimeValues('0s; intro.end + 1s; a\\.b.begin-500ms; btn.click; b.repeat(2)')).toEqual([
+      { type: 'offset', offset: 0 },
+      { type: 'syncbase', id: 'intro', event: 'end', offset: 1000 },
+      { type: 'syncbase', id: 'a.b', event: 'begin', offset: -500 },
+      { type: 'event', event: 'btn.click' },
+      { type: 'repeat', id: 'b', iteration: 2, offset: 0 },
+    ]);
+  });
+});
+
+describe('resolveTimings', () => {
+  it('resolves syncbase chains', () => {
+    const { timings, warnings } = resolveTimings(animations(`
+      <animate id="intro" dur="2s"/>
+      <animate id="main" begin="intro.end+1s" dur="00:00:03"/>
+      <animate begin="main.begin" dur="1min" end="main.end"/>
+    `));
+
+    expect(timings.map((timing) => [timing.beginTime, timing.endTime])).toEqual([
+      [0, 2000],
+      [3000, 6000],
+      [3000, 6000],
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('resolves repeat based timing', () => {
+    const { timings } = resolveTimings(animations(`
+      <animate id="a" dur="1s" repeatCount="3"/>
+      <animate begin="a.repeat(2)" dur="2s"/>
+    `));
+
+    expect(timings[1].beginTime).toBe(2000);
+    expect(timings[1].endTime).toBe(4000);
+  });
+
+  it('detects loops created by elements starting each other', () => {
+    const { timings, warnings } = resolveTimings(animations(`
+      <animate id="a" begin="0s;b.end" dur="1s"/>
+      <animate id="b" begin="a.end" dur="2s"/>
+    `));
+
+    expect(warnings).toEqual([]);
+    for (const timing of timings) {
+      expect(timing.isInfinite).toBe(true);
+      expect(timing.baseDuration).toBe(3000);
+    }
+  });
+
+  it('reports cycles and unresolvable references', () => {
+    const { timings, warnings } = resolveTimings(animations(`
+      <animate id="a" begin="b.end" dur="1s"/>
+      <animate id="b" begin="a.end" dur="1s"/>
+      <animate id="c" begin="missing.end" dur="1s"/>
+    `));
+
+    expect(timings.map((timing) => timing.beginTime)).toEqual([null, null, null]);
+    expect(warnings).toEqual([
+      'Unresolvable reference "missing" in begin of <animate id="c">',
+      'Circular timing dependency: a -> b -> a',
+    ]);
+  });
+});
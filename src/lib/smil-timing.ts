@@ -0,0 +1,502 @@
+import { parseTime } from './utils.js';
+
+/**
+ * Resolved timing of a SMIL animation element
+ */
+export interface AnimationTiming {
+  element: Element;
+  id: string | null;
+  beginTime: number | null; // first begin in milliseconds, null if it never begins by itself
+  endTime: number | null; // end of the first active interval, null if infinite or never begins
+  isInfinite: boolean;
+  baseDuration: number | null; // The duration of one loop iteration
+  isExplicitInfinite: boolean; // True if the element is set to repeat forever
+}
+
+export interface TimingReport {
+  timings: AnimationTiming[];
+  warnings: string[];
+}
+
+/**
+ * Single value of a begin or end attribute list
+ */
+type TimeValue =
+  | { type: 'offset'; offset: number }
+  | { type: 'syncbase'; id: string; event: 'begin' | 'end'; offset: number }
+  | { type: 'repeat'; id: string; iteration: number; offset: number }
+  | { type: 'event'; event: string }
+  | { type: 'indefinite' }
+  | { type: 'unsupported'; value: string };
+
+interface Interval {
+  begin: number | null;
+  end: number | null;
+  duration: number | null; // simple duration
+  isCut: boolean; // infinite animation ended by the end attribute
+}
+
+interface ActiveDuration {
+  duration: number; // active duration when finite
+  isInfinite: boolean;
+  baseDuration: number | null;
+  isExplicitInfinite: boolean;
+}
+
+interface TimingNode {
+  element: Element;
+  begin: TimeValue[];
+  end: TimeValue[];
+  active: ActiveDuration;
+  dependencies: Element[]; // elements referenced by begin values
+}
+
+// Check for extremely long durations (treat as infinite loop)
+const MAX_REASONABLE_DURATION = 3600 * 1000; // 1 hour
+
+/**
+ * Parse a begin or end attribute into a list of time values
+ * (e.g. "0s; intro.end + 1s; btn.click")
+ */
+export function parseTimeValues(attr: string): TimeValue[] {
+  return attr.split(';').map((item) => item.trim()).filter(Boolean).map(parseTimeValue);
+}
+
+function parseTimeValue(value: string): TimeValue {
+  if (value === 'indefinite') {
+    return { type: 'indefinite' };
+  }
+
+  const offset = parseOffset(value);
+  if (offset !== null) {
+    return { type: 'offset', offset };
+  }
+
+  if (/^(?:wallclock|accessKey)\(/.test(value)) {
+    return { type: 'unsupported', value };
+  }
+
+  // Id may contain escaped characters, e.g. "a\.b.end"
+  const match = value.match(/^((?:\\.|[^.\\\s])+)\.([A-Za-z]+(?:\((\d+)\))?)\s*(?:([+-].*))?$/);
+  if (match) {
+    const id = match[1].replace(/\\(.)/g, '$1');
+    const event = match[2];
+    const offset = match[4] ? parseOffset(match[4]) : 0;
+    if (offset === null) {
+      return { type: 'unsupported', value };
+    }
+    if (event === 'begin' || event === 'end') {
+      return { type: 'syncbase', id, event, offset };
+    }
+    if (match[3] !== undefined && event.startsWith('repeat(')) {
+      return { type: 'repeat', id, iteration: parseInt(match[3], 10), offset };
+    }
+    return { type: 'event', event: value };
+  }
+
+  if (/^[A-Za-z]+\s*(?:[+-].*)?$/.test(value)) {
+    return { type: 'event', event: value };
+  }
+
+  return { type: 'unsupported', value };
+}
+
+/**
+ * Parse signed clock value (e.g. "-1s", "+ 00:02")
+ */
+function parseOffset(value: string): number | null {
+  const match = value.match(/^([+-])?\s*(.+)$/);
+  if (!match) return null;
+  const time = parseTime(match[2]);
+  if (time === null) return null;
+  return match[1] === '-' ? -time : time;
+}
+
+/**
+ * Return short description of the element used in warnings
+ */
+export function describeElement(element: Element): string {
+  const id = element.getAttribute('id');
+  if (id) {
+    return `<${element.tagName} id="${id}">`;
+  }
+  const attributeName = element.getAttribute('attributeName');
+  if (attributeName) {
+    return `<${element.tagName} attributeName="${attributeName}">`;
+  }
+  return `<${element.tagName}>`;
+}
+
+/**
+ * Resolve begin and end times of animation elements, following syncbase
+ * (id.begin/id.end) and repeat (id.repeat(n)) references between them
+ */
+export function resolveTimings(elements: Element[]): TimingReport {
+  const warnings: string[] = [];
+  const warn = (message: string) => {
+    if (!warnings.includes(message)) {
+      warnings.push(message);
+    }
+  };
+
+  const byId = new Map<string, Element>();
+  for (const element of elements) {
+    const id = element.getAttribute('id');
+    if (id) {
+      byId.set(id, element);
+    }
+  }
+
+  // Parse timing attributes once, reporting values that can't be resolved
+  const nodes: TimingNode[] = elements.map((element) => {
+    const node: TimingNode = {
+      element,
+      begin: parseTimeValues(element.getAttribute('begin') || '0s'),
+      end: parseTimeValues(element.getAttribute('end') || ''),
+      active: parseActiveDuration(element, warn),
+      dependencies: [],
+    };
+    for (const attr of ['begin', 'end'] as const) {
+      for (const value of node[attr]) {
+        const ref = checkValue(element, value, attr, byId, warn);
+        if (ref && attr === 'begin' && !node.dependencies.includes(ref)) {
+          node.dependencies.push(ref);
+        }
+      }
+    }
+    return node;
+  });
+
+  // Begin of the first interval is the earliest resolved begin value, repeat
+  // until references settle (each round resolves at least one more link)
+  const intervals = new Map<Element, Interval>();
+  for (const node of nodes) {
+    intervals.set(node.element, {
+      begin: null,
+      end: null,
+      duration: node.active.baseDuration,
+      isCut: false,
+    });
+  }
+
+  let changed = true;
+  for (let round = 0; changed && round <= nodes.length; round++) {
+    changed = false;
+    for (const node of nodes) {
+      const interval = computeInterval(node, intervals, byId);
+      const previous = intervals.get(node.element)!;
+      if (previous.begin !== interval.begin || previous.end !== interval.end) {
+        intervals.set(node.element, interval);
+        changed = true;
+      }
+    }
+  }
+
+  const looping = findLoops(nodes, intervals, byId, !changed, warn);
+
+  const timings = nodes.map((node): AnimationTiming => {
+    const interval = intervals.get(node.element)!;
+    const period = looping.get(node.element);
+    if (period !== undefined) {
+      return {
+        element: node.element,
+        id: node.element.getAttribute('id') || null,
+        beginTime: interval.begin,
+        endTime: null,
+        isInfinite: true,
+        baseDuration: period,
+        isExplicitInfinite: true,
+      };
+    }
+    // End attribute turns an infinite animation into a finite one
+    const isInfinite = node.active.isInfinite && !interval.isCut;
+    return {
+      element: node.element,
+      id: node.element.getAttribute('id') || null,
+      beginTime: interval.begin,
+      endTime: isInfinite ? null : interval.end,
+      isInfinite,
+      baseDuration: node.active.baseDuration,
+      isExplicitInfinite: isInfinite && node.active.isExplicitInfinite,
+    };
+  });
+
+  return { timings, warnings };
+}
+
+/**
+ * Warn about values that can't be resolved, return element referenced
+ * by syncbase or repeat value
+ */
+function checkValue(
+  element: Element,
+  value: TimeValue,
+  attr: string,
+  byId: Map<string, Element>,
+  warn: (message: string) => void
+): Element | null {
+  switch (value.type) {
+    case 'syncbase':
+    case 'repeat': {
+      const ref = byId.get(value.id);
+      if (!ref) {
+        warn(`Unresolvable reference "${value.id}" in ${attr} of ${describeElement(element)}`);
+        return null;
+      }
+      return ref;
+    }
+    case 'event':
+      warn(`Event based timing "${value.event}" in ${attr} of ${describeElement(element)} is ignored`);
+      return null;
+    case 'unsupported':
+      warn(`Unsupported timing value "${value.value}" in ${attr} of ${describeElement(element)}`);
+      return null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Compute first active interval of the element from the current
+ * state of the intervals it references
+ */
+function computeInterval(
+  node: TimingNode,
+  intervals: Map<Element, Interval>,
+  byId: Map<string, Element>
+): Interval {
+  const resolveAll = (values: TimeValue[]) => values
+    .map((value) => resolveValue(value, intervals, byId))
+    .filter((time): time is number => time !== null);
+
+  const begins = resolveAll(node.begin);
+  const begin = begins.length > 0 ? Math.min(...begins) : null;
+  const interval: Interval = {
+    begin,
+    end: null,
+    duration: node.active.baseDuration,
+    isCut: false,
+  };
+  if (begin === null) {
+    return interval;
+  }
+
+  if (!node.active.isInfinite) {
+    interval.end = begin + node.active.duration;
+  }
+
+  // End attribute cuts the active duration
+  const ends = resolveAll(node.end).filter((time) => time >= begin);
+  if (ends.length > 0) {
+    const end = Math.min(...ends);
+    interval.end = interval.end === null ? end : Math.min(interval.end, end);
+    interval.isCut = node.active.isInfinite;
+  }
+
+  return interval;
+}
+
+function resolveValue(
+  value: TimeValue,
+  intervals: Map<Element, Interval>,
+  byId: Map<string, Element>
+): number | null {
+  if (value.type === 'offset') {
+    return value.offset;
+  }
+  if (value.type === 'syncbase' || value.type === 'repeat') {
+    const ref = byId.get(value.id);
+    return ref ? timeOf(intervals.get(ref)!, value) : null;
+  }
+  return null;
+}
+
+/**
+ * Elements that start each other in a cycle (e.g. a.begin="0s;b.end" and
+ * b.begin="a.end") loop forever, the loop period is the time between two
+ * begins of the same element. Return loop period of every looping element.
+ */
+function findLoops(
+  nodes: TimingNode[],
+  intervals: Map<Element, Interval>,
+  byId: Map<string, Element>,
+  converged: boolean,
+  warn: (message: string) => void
+): Map<Element, number> {
+  const looping = new Map<Element, number>();
+  const nodeOf = new Map(nodes.map((node) => [node.element, node]));
+
+  for (const cycle of findCycles(nodes, nodeOf)) {
+    const path = cycle.concat(cycle[0]).map(elementName).join(' -> ');
+    if (!converged || cycle.some((element) => intervals.get(element)!.begin === null)) {
+      warn(`Circular timing dependency: ${path}`);
+      continue;
+    }
+
+    let period = 0;
+    for (const element of cycle) {
+      const begin = intervals.get(element)!.begin!;
+      for (const value of nodeOf.get(element)!.begin) {
+        if (value.type !== 'syncbase' && value.type !== 'repeat') continue;
+        if (!cycle.includes(byId.get(value.id)!)) continue;
+        const restart = resolveValue(value, intervals, byId);
+        if (restart !== null && restart > begin) {
+          period = Math.max(period, restart - begin);
+        }
+      }
+    }
+
+    if (period > 0) {
+      for (const element of cycle) {
+        looping.set(element, Math.max(looping.get(element) ?? 0, period));
+      }
+    }
+  }
+
+  // Elements synchronized with a looping element loop with it
+  let changed = looping.size > 0;
+  while (changed) {
+    changed = false;
+    for (const node of nodes) {
+      if (looping.has(node.element)) continue;
+      const ref = node.dependencies.find((dependency) => looping.has(dependency));
+      if (ref) {
+        looping.set(node.element, looping.get(ref)!);
+        changed = true;
+      }
+    }
+  }
+
+  return looping;
+}
+
+/**
+ * Find cycles in begin dependencies (depth first search back edges)
+ */
+function findCycles(
+  nodes: TimingNode[],
+  nodeOf: Map<Element, TimingNode>
+): Element[][] {
+  const cycles: Element[][] = [];
+  const state = new Map<Element, 'visiting' | 'done'>();
+  const stack: Element[] = [];
+
+  const visit = (element: Element) => {
+    state.set(element, 'visiting');
+    stack.push(element);
+    for (const ref of nodeOf.get(element)!.dependencies) {
+      if (state.get(ref) === 'visiting') {
+        cycles.push(stack.slice(stack.indexOf(ref)));
+      } else if (!state.has(ref)) {
+        visit(ref);
+      }
+    }
+    stack.pop();
+    state.set(element, 'done');
+  };
+
+  for (const node of nodes) {
+    if (!state.has(node.element)) {
+      visit(node.element);
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Parse simple and active duration of an element from its dur,
+ * repeatCount and repeatDur attributes
+ */
+function parseActiveDuration(
+  element: Element,
+  warn: (message: string) => void
+): ActiveDuration {
+  const durAttr = element.getAttribute('dur');
+  const repeatCountAttr = element.getAttribute('repeatCount');
+  const repeatDurAttr = element.getAttribute('repeatDur');
+
+  // Check for indefinite duration
+  if (durAttr === 'indefinite') {
+    return { duration: 0, isInfinite: true, baseDuration: null, isExplicitInfinite: false };
+  }
+
+  // Parse base duration
+  let baseDuration = 0;
+  if (durAttr && durAttr !== 'media') {
+    const parsedDur = parseTime(durAttr);
+    if (parsedDur !== null) {
+      baseDuration = parsedDur;
+    } else {
+      warn(`Unable to parse dur="${durAttr}" of ${describeElement(element)}`);
+    }
+  }
+
+  // Check for indefinite repeat - this is the key indicator of a loop animation
+  if (repeatCountAttr === 'indefinite' || repeatDurAttr === 'indefinite') {
+    return { duration: 0, isInfinite: true, baseDuration, isExplicitInfinite: true };
+  }
+
+  // Parse repeat count
+  let repeatCount = 1;
+  if (repeatCountAttr) {
+    const parsed = parseFloat(repeatCountAttr);
+    if (!isNaN(parsed) && parsed > 0) {
+      repeatCount = parsed;
+    } else {
+      warn(`Unable to parse repeatCount="${repeatCountAttr}" of ${describeElement(element)}`);
+    }
+  }
+
+  // Parse repeat duration
+  let repeatDuration: number | null = null;
+  if (repeatDurAttr) {
+    repeatDuration = parseTime(repeatDurAttr);
+    if (repeatDuration === null) {
+      warn(`Unable to parse repeatDur="${repeatDurAttr}" of ${describeElement(element)}`);
+    }
+  }
+
+  // Calculate total duration
+  let totalDuration: number;
+  if (repeatDuration !== null) {
+    totalDuration = repeatDuration;
+  } else {
+    totalDuration = baseDuration * repeatCount;
+  }
+
+  if (totalDuration > MAX_REASONABLE_DURATION) {
+    // It's effectively infinite, but we know the base loop duration
+    return { duration: 0, isInfinite: true, baseDuration, isExplicitInfinite: false };
+  }
+
+  return { duration: totalDuration, isInfinite: false, baseDuration, isExplicitInfinite: false };
+}
+
+/**
+ * Time of syncbase or repeat value for the resolved interval
+ */
+function timeOf(
+  interval: Interval,
+  value: TimeValue & { offset: number }
+): number | null {
+  if (interval.begin === null) {
+    return null;
+  }
+  if (value.type === 'syncbase') {
+    const time = value.event === 'begin' ? interval.begin : interval.end;
+    return time === null ? null : time + value.offset;
+  }
+  if (value.type === 'repeat' && interval.duration) {
+    const time = interval.begin + value.iteration * interval.duration;
+    if (interval.end !== null && time >= interval.end) {
+      return null;
+    }
+    return time + value.offset;
+  }
+  return null;
+}
+
+function elementName(element: Element): string {
+  return element.getAttribute('id') || element.tagName;
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { analyzeSVG, analyzeSVGContent, localReferences } from './svg-analyzer.js';
+
+describe('analyzeSVGContent', () => {
+  it('detects scripts and event handlers', () => {
+    const scripted = analyzeSVGContent(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"><script>run()</script></svg>'
+    );
+    const handler = analyzeSVGContent(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" onload="run()"/>'
+    );
+    const plain = analyzeSVGContent(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"><rect/></svg>'
+    );
+
+    expect(scripted.hasScripts).toBe(true);
+    expect(handler.hasScripts).toBe(true);
+    expect(plain.hasScripts).toBe(false);
+    expect(scripted.signals).toEqual({ ready: false, done: false });
+  });
+
+  it('detects completion signals of scripts', () => {
+    const analysis = analyzeSVGContent(`
+      <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10">
+        <script>type('Hello').then(() => svgVideo.done());</script>
+      </svg>
+    `);
+
+    expect(analysis.signals).toEqual({ ready: false, done: true });
+  });
+
+  it('finds external references but not local ones', () => {
+    const analysis = analyzeSVGContent(`
+      <svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"
+           width="10" height="10">
+        <style>
+          @import "theme.css";
+          @font-face { font-family: Brand; src: url('fonts/brand.woff2'); }
+        </style>
+        <image href="photo.jpg"/>
+        <use xlink:href="icons.svg#star"/>
+        <use xlink:href="#local"/>
+        <rect fill="url(#gradient)" style="filter: url(filters.svg#blur)"/>
+        <image href="data:image/png;base64,AAAA"/>
+      </svg>
+    `);
+
+    expect(analysis.externalReferences).toEqual([
+      'theme.css',
+      'fonts/brand.woff2',
+      'photo.jpg',
+      'icons.svg#star',
+      'filters.svg#blur',
+    ]);
+    expect(analysis.resources.map((resource) => resource.kind)).toEqual([
+      'stylesheet', 'font', 'image', 'use', 'image',
+    ]);
+  });
+
+  it('describes every animation and marks the ones that decide the duration', () => {
+    const analysis = analyzeSVGContent(`
+      <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10">
+        <style>@keyframes pulse { to { opacity: 0 } } #dot { animation: pulse 1s 0.5s 2 }</style>
+        <circle id="dot" r="5"/>
+        <animate href="#dot" attributeName="r" to="2" dur="2.5s" repeatCount="1"/>
+      </svg>
+    `);
+
+    expect(analysis.animations).toEqual([
+      {
+        type: 'smil', element: 'animate', id: null, target: '#dot', attribute: 'r',
+        begin: '0s', dur: '2.5s', repeat: '1',
+        beginTime: 0, endTime: 2500, period: null, decisive: true,
+      },
+      {
+        type: 'css', element: 'css', id: null, target: '#dot', attribute: 'pulse',
+        begin: '0.5s', dur: '1s', repeat: '2',
+        beginTime: 500, endTime: 2500, period: null, decisive: true,
+      },
+    ]);
+  });
+});
+
+describe('localReferences', () => {
+  it('resolves local files from the directory of the SVG', () => {
+    const references = [
+      'logo.png',
+      'my%20logo.png',
+      '100%.png',
+      'sprites.svg#icon',
+      '../fonts/font.woff2?v=2',
+      'file:///assets/bg.jpg',
+      'https://example.com/font.woff2',
+    ];
+
+    expect(localReferences('/work/art/animation.svg', references)).toEqual([
+      '/work/art/logo.png',
+      '/work/art/my logo.png',
+      '/work/art/100%.png',
+      '/work/art/sprites.svg',
+      '/work/fonts/font.woff2',
+      '/assets/bg.jpg',
+    ]);
+  });
+});
+
+describe('analyzeSVG', () => {
+  it('warns about missing and remote resources', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'svg-video-analyzer-'));
+    try {
+      await writeFile(join(dir, 'logo.png'), 'png');
+      await writeFile(join(dir, 'animation.svg'), `
+        <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10">
+          <style>@font-face { font-family: Brand; src: url(https://example.com/brand.woff2); }</style>
+          <image href="logo.png"/>
+          <use href="sprites.svg#icon"/>
+          <a href="https://example.com"><rect width="10" height="10"/></a>
+        </svg>
+      `);
+      const analysis = await analyzeSVG(join(dir, 'animation.svg'));
+
+      expect(analysis.resources.map(({ kind, status }) => [kind, status])).toEqual([
+        ['font', 'remote'],
+        ['image', 'found'],
+        ['use', 'missing'],
+        ['link', 'unchecked'],
+      ]);
+      expect(analysis.warnings).toEqual([
+        'Remote font https://example.com/brand.woff2 is loaded from the network',
+        `Missing use sprites.svg#icon (${join(dir, 'sprites.svg')})`,
+      ]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,27 +1,133 @@
 import { readFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
 import { DOMParser } from '@xmldom/xmldom';
-import { parseTime, ValidationError } from './utils.js';
+import { fileExists, ValidationError } from './utils.js';
+import { resolveTimings } from './smil-timing.js';
+import { computeLoopPeriod, Loop, MAX_LOOP_DURATION } from './loop-period.js';
+import { AnimationSignals, findSignals } from './signals.js';
+import {
+  CSSAnimation,
+  extractKeyframeNames,
+  parseInlineAnimations,
+  parseRuleAnimations,
+} from './css-animations.js';
 
 export interface SVGDimensions {
   width: number;
   height: number;
 }
 
+/**
+ * Single SMIL or CSS animation found in the SVG, times in milliseconds
+ */
+export interface AnimationInfo {
+  type: 'smil' | 'css';
+  element: string; // tag name of SMIL element, 'css' for CSS animations
+  id: string | null;
+  target: string | null; // animated element, selector of CSS rule
+  attribute: string | null; // attributeName, name of the @keyframes
+  begin: string; // as written in the SVG
+  dur: string | null;
+  repeat: string | null; // repeatCount or repeatDur, iteration count
+  beginTime: number | null; // null if it starts only on user events
+  endTime: number | null; // null if infinite or never begins
+  period: number | null; // duration of one loop of infinite animations
+  decisive: boolean; // decides the duration or the loop of the recording
+}
+
+/**
+ * Kind of external resource: image (<image>, <feImage> and CSS url()),
+ * font (@font-face), use (<use> of another document), stylesheet
+ * (@import), script, link (<a>) or other
+ */
+export type ResourceKind = 'image' | 'font' | 'use' | 'stylesheet' | 'script' | 'link' | 'other';
+
+export interface ExternalResource {
+  url: string;
+  kind: ResourceKind;
+  /** Local file, null for network URLs and resources that are not checked */
+  path: string | null;
+  status: 'found' | 'missing' | 'remote' | 'unchecked';
+}
+
 export interface SVGAnalysis {
   dimensions: SVGDimensions;
   duration: number | null; // in milliseconds, null if unknown
   hasAnimations: boolean;
   hasInfiniteAnimations: boolean;
   loopDuration: number | null; // duration of one loop for infinite animations
+  exactLoopDuration: number | null; // common period of all loops, can be longer than loopDuration
+  loopStart: number; // time in milliseconds when all loops are running
+  warnings: string[]; // unparsable or unresolvable timing values
+  hasScripts: boolean; // <script> elements or event handler attributes
+  signals: AnimationSignals; // svgVideo.ready() and done() used by the scripts
+  externalReferences: string[]; // URLs of images, fonts, stylesheets etc. outside the SVG
+  resources: ExternalResource[]; // external references with their kind, checked by analyzeSVG
+  animations: AnimationInfo[]; // in document order, SMIL before CSS
 }
 
+const HREF_KINDS: Record<string, ResourceKind> = {
+  image: 'image',
+  feImage: 'image',
+  use: 'use',
+  script: 'script',
+  a: 'link',
+};
+
 /**
- * Analyze SVG file to extract dimensions and animation information
+ * url(...) with the @import before it, or @import "...": the URL is group 3
+ * or 5, groups 1 and 5 are set for stylesheets
+ */
+export const CSS_URL_PATTERN = /(@import\s+)?url\(\s*(['"]?)(.*?)\2\s*\)|@import\s+(['"])(.*?)\4/g;
+
+const FONT_EXTENSION = /\.(woff2?|ttf|otf|eot)([?#].*)?$/i;
+
+/**
+ * Analyze SVG file to extract dimensions and animation information, local
+ * resources are checked relative to the file
  */
 export async function analyzeSVG(svgPath: string): Promise<SVGAnalysis> {
   // Read SVG file
   const svgContent = await readFile(svgPath, 'utf-8');
+  const analysis = analyzeSVGContent(svgContent);
+  await checkResources(analysis, resolve(svgPath));
+  return analysis;
+}
 
+/**
+ * Return resources loaded by the browser when the SVG renders, links are
+ * only followed when clicked
+ */
+export function loadedResources(resources: ExternalResource[]): ExternalResource[] {
+  return resources.filter((resource) => resource.kind !== 'link');
+}
+
+/**
+ * Find local files of the resources and warn about missing files and
+ * resources loaded from the network, links are not checked
+ */
+export async function checkResources(analysis: SVGAnalysis, svgPath: string): Promise<void> {
+  for (const resource of loadedResources(analysis.resources)) {
+    resource.path = resourcePath(svgPath, resource.url);
+    if (resource.path === null) {
+      resource.status = 'remote';
+      analysis.warnings.push(
+        `Remote ${resource.kind} ${resource.url} is loaded from the network`
+      );
+    } else if (await fileExists(resource.path)) {
+      resource.status = 'found';
+    } else {
+      resource.status = 'missing';
+      analysis.warnings.push(`Missing ${resource.kind} ${resource.url} (${resource.path})`);
+    }
+  }
+}
+
+/**
+ * Analyze SVG source code to extract dimensions and animation information
+ */
+export function analyzeSVGContent(svgContent: string): SVGAnalysis {
   // Parse SVG
   const parser = new DOMParser();
   const doc = parser.parseFromString(svgContent, 'image/svg+xml');
@@ -36,6 +142,8 @@ export async function analyzeSVG(svgPath: string): Promise<SVGAnalysis> {
 
   // Analyze animations
   const animationInfo = analyzeAnimations(svgElement);
+  const scripts = findScripts(svgElement);
+  const resources = findResources(svgElement);
 
   return {
     dimensions,
@@ -43,9 +151,122 @@ export async function analyzeSVG(svgPath: string): Promise<SVGAnalysis> {
     hasAnimations: animationInfo.hasAnimations,
     hasInfiniteAnimations: animationInfo.hasInfiniteAnimations,
     loopDuration: animationInfo.loopDuration,
+    exactLoopDuration: animationInfo.exactLoopDuration,
+    loopStart: animationInfo.loopStart,
+    warnings: animationInfo.warnings,
+    hasScripts: scripts.length > 0,
+    signals: findSignals(scripts.join('\n')),
+    externalReferences: resources.map((resource) => resource.url),
+    resources,
+    animations: animationInfo.animations,
   };
 }
 
+/**
+ * Return source code of scripts and event handler attributes (onclick, onload...)
+ */
+function findScripts(svgElement: Element): string[] {
+  const scripts: string[] = [];
+  const elements = [svgElement, ...Array.from(svgElement.getElementsByTagName('*'))];
+  for (const element of elements) {
+    if (element.localName === 'script') {
+      scripts.push(element.textContent ?? '');
+    }
+    for (const attribute of Array.from(element.attributes)) {
+      if (/^on/i.test(attribute.name)) {
+        scripts.push(attribute.value);
+      }
+    }
+  }
+  return scripts;
+}
+
+/**
+ * Find resources outside the SVG document: href attributes (images, <use>,
+ * scripts, links) and CSS url() and @import
+ */
+function findResources(svgElement: Element): ExternalResource[] {
+  const resources = new Map<string, ExternalResource>();
+  const add = (url: string, kind: ResourceKind) => {
+    const value = url.trim();
+    if (value && !value.startsWith('#') && !/^data:/i.test(value) && !resources.has(value)) {
+      resources.set(value, { url: value, kind, path: null, status: 'unchecked' });
+    }
+  };
+
+  const elements = [svgElement, ...Array.from(svgElement.getElementsByTagName('*'))];
+  for (const element of elements) {
+    for (const attribute of Array.from(element.attributes)) {
+      if (attribute.name === 'href' || attribute.name === 'xlink:href') {
+        add(attribute.value, HREF_KINDS[element.localName] ?? 'other');
+      } else {
+        findCSSResources(attribute.value, add);
+      }
+    }
+    if (element.localName === 'style') {
+      findCSSResources(element.textContent ?? '', add);
+    }
+  }
+
+  return [...resources.values()];
+}
+
+/**
+ * Return paths of the local files referenced by the SVG, without remote
+ * URLs and fragments (e.g. sprites.svg#icon)
+ */
+export function localReferences(svgPath: string, references: string[]): string[] {
+  const paths = references
+    .map((reference) => resourcePath(svgPath, reference))
+    .filter((path): path is string => path !== null);
+  return [...new Set(paths)];
+}
+
+/**
+ * Return local file of the URL relative to the SVG, null for network URLs
+ */
+export function resourcePath(svgPath: string, url: string): string | null {
+  const file = url.replace(/[?#].*$/, '');
+  if (/^file:/i.test(file)) {
+    return fileURLToPath(file);
+  }
+  if (/^[a-z][a-z0-9+.-]*:/i.test(file)) {
+    return null;
+  }
+  return resolve(dirname(svgPath), decodePath(file));
+}
+
+/**
+ * Decode percent escapes of the path, keep names like 100%.png as they are
+ */
+function decodePath(path: string): string {
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * Find url() and @import of CSS, urls inside @font-face rules are fonts
+ */
+export function findCSSResources(css: string, add: (url: string, kind: ResourceKind) => void): void {
+  const fonts = new Set<string>();
+  for (const [block] of css.matchAll(/@font-face\s*\{[^}]*\}/gi)) {
+    for (const match of block.matchAll(CSS_URL_PATTERN)) {
+      fonts.add((match[3] ?? match[5]).trim());
+    }
+  }
+  for (const match of css.matchAll(CSS_URL_PATTERN)) {
+    const url = (match[3] ?? match[5]).trim();
+    if (match[1] || match[5] !== undefined) {
+      add(url, 'stylesheet');
+    } else {
+      add(url, fonts.has(url) || FONT_EXTENSION.test(url) ? 'font' : 'image');
+    }
+  }
+}
+
 /**
  * Extract dimensions from SVG element
  */
@@ -98,13 +319,17 @@ function parseNumericAttribute(value: string): number | null {
 }
 
 /**
- * Analyze SMIL animations in the SVG
+ * Analyze SMIL and CSS animations in the SVG
  */
 function analyzeAnimations(svgElement: Element): {
   hasAnimations: boolean;
   duration: number | null;
   hasInfiniteAnimations: boolean;
   loopDuration: number | null;
+  exactLoopDuration: number | null;
+  loopStart: number;
+  warnings: string[];
+  animations: AnimationInfo[];
 } {
   const animationTags = [
     'animate',
@@ -117,141 +342,201 @@ function analyzeAnimations(svgElement: Element): {
   let maxEndTime = 0;
   let hasAnimations = false;
   let hasInfiniteAnimations = false;
-  const loopDurations: number[] = [];
-  const infiniteLoopDurations: number[] = []; // durations from repeatCount="indefinite"
-
-  // Find all animation elements
-  for (const tagName of animationTags) {
-    const elements = svgElement.getElementsByTagName(tagName);
-
-    for (let i = 0; i < elements.length; i++) {
-      const animElement = elements[i];
-      hasAnimations = true;
-
-      // Parse animation timing
-      const timing = parseAnimationTiming(animElement);
-
-      if (timing.isInfinite) {
-        hasInfiniteAnimations = true;
-        // Collect base duration for loop detection
-        if (timing.baseDuration !== null && timing.baseDuration > 0) {
-          loopDurations.push(timing.baseDuration);
-          // If it's explicitly infinite (repeatCount="indefinite"), prioritize it
-          if (timing.isExplicitInfinite) {
-            infiniteLoopDurations.push(timing.baseDuration);
-          }
+  const loops: Loop[] = [];
+  const infiniteLoops: Loop[] = []; // loops from repeatCount="indefinite"
+  const animations: AnimationInfo[] = [];
+  const loopAnimations = new Map<Loop, AnimationInfo>();
+
+  // Find all animation elements (in document order)
+  const animationElements: Element[] = [];
+  const allElements = svgElement.getElementsByTagName('*');
+  for (let i = 0; i < allElements.length; i++) {
+    if (animationTags.includes(allElements[i].tagName)) {
+      animationElements.push(allElements[i]);
+    }
+  }
+
+  // Resolve timing, including references between animations (e.g. begin="intro.end")
+  const { timings, warnings } = resolveTimings(animationElements);
+
+  for (const timing of timings) {
+    hasAnimations = true;
+    const { element } = timing;
+    const info: AnimationInfo = {
+      type: 'smil',
+      element: element.tagName,
+      id: timing.id,
+      target: describeTarget(element),
+      attribute: element.getAttribute('attributeName') || null,
+      begin: element.getAttribute('begin') || '0s',
+      dur: element.getAttribute('dur') || null,
+      repeat: element.getAttribute('repeatCount') || element.getAttribute('repeatDur') || null,
+      beginTime: timing.beginTime,
+      endTime: timing.endTime,
+      period: timing.isInfinite ? timing.baseDuration : null,
+      decisive: false,
+    };
+    animations.push(info);
+
+    // Animation that starts only on user events never plays while recording
+    if (timing.beginTime === null) {
+      continue;
+    }
+
+    if (timing.isInfinite) {
+      hasInfiniteAnimations = true;
+      // Collect base duration for loop detection
+      if (timing.baseDuration !== null && timing.baseDuration > 0) {
+        const loop = { period: timing.baseDuration, begin: timing.beginTime };
+        loops.push(loop);
+        loopAnimations.set(loop, info);
+        // If it's explicitly infinite (repeatCount="indefinite"), prioritize it
+        if (timing.isExplicitInfinite) {
+          infiniteLoops.push(loop);
         }
-      } else if (timing.endTime !== null) {
-        maxEndTime = Math.max(maxEndTime, timing.endTime);
       }
+    } else if (timing.endTime !== null) {
+      maxEndTime = Math.max(maxEndTime, timing.endTime);
+    }
+  }
+
+  // CSS animations (@keyframes used from <style> blocks or style attributes)
+  for (const { animation, target } of findCSSAnimations(svgElement)) {
+    hasAnimations = true;
+    const infinite = animation.iterationCount === Infinity;
+    const info: AnimationInfo = {
+      type: 'css',
+      element: 'css',
+      id: null,
+      target,
+      attribute: animation.name,
+      begin: formatMs(animation.delay),
+      dur: formatMs(animation.duration),
+      repeat: infinite ? 'infinite' : String(animation.iterationCount),
+      beginTime: animation.delay,
+      endTime: infinite ? null : animation.delay + animation.duration * animation.iterationCount,
+      period: infinite ? animation.duration : null,
+      decisive: false,
+    };
+    animations.push(info);
+
+    if (infinite) {
+      hasInfiniteAnimations = true;
+      if (animation.duration > 0) {
+        const loop = { period: animation.duration, begin: animation.delay };
+        loops.push(loop);
+        infiniteLoops.push(loop);
+        loopAnimations.set(loop, info);
+      }
+    } else {
+      maxEndTime = Math.max(maxEndTime, info.endTime!);
     }
   }
 
   // Calculate loop duration for infinite animations
   let loopDuration: number | null = null;
-  if (hasInfiniteAnimations && loopDurations.length > 0) {
+  let exactLoopDuration: number | null = null;
+  let loopStart = 0;
+  if (hasInfiniteAnimations && loops.length > 0) {
+    let candidates: Loop[];
     // Prioritize animations with explicit repeatCount="indefinite"
-    if (infiniteLoopDurations.length > 0) {
-      // Find the smallest reasonable loop from explicit infinite animations
+    if (infiniteLoops.length > 0) {
       // Filter out extremely long durations (those are likely placeholder values)
-      const reasonableLoops = infiniteLoopDurations.filter(d => d <= 600 * 1000); // <= 10 minutes
+      const reasonableLoops = infiniteLoops.filter((loop) => loop.period <= MAX_LOOP_DURATION);
       if (reasonableLoops.length > 0) {
-        // Use the maximum of the reasonable durations for a complete loop
-        loopDuration = Math.max(...reasonableLoops);
+        candidates = reasonableLoops;
       } else {
-        // All are too long, just use the minimum
-        loopDuration = Math.min(...infiniteLoopDurations);
+        // All are too long, just use the shortest one
+        const shortest = Math.min(...infiniteLoops.map((loop) => loop.period));
+        candidates = infiniteLoops.filter((loop) => loop.period === shortest);
       }
     } else {
       // No explicit infinite loops, use heuristic from all infinite animations
-      loopDuration = Math.max(...loopDurations);
+      const longest = Math.max(...loops.map((loop) => loop.period));
+      candidates = loops.filter((loop) => loop.period === longest);
+    }
+
+    for (const loop of candidates) {
+      loopAnimations.get(loop)!.decisive = true;
+    }
+
+    // Common period of all loops, so every loop ends where it started
+    const period = computeLoopPeriod(candidates)!;
+    loopDuration = period.chosen;
+    exactLoopDuration = period.exact;
+    loopStart = period.start;
+    if (period.warning) {
+      warnings.push(period.warning);
+    }
+  }
+
+  const duration = hasAnimations && !hasInfiniteAnimations && maxEndTime > 0 ? maxEndTime : null;
+  if (duration !== null) {
+    for (const info of animations) {
+      info.decisive = info.endTime === duration;
     }
   }
 
   return {
     hasAnimations,
-    duration: hasAnimations && !hasInfiniteAnimations && maxEndTime > 0 ? maxEndTime : null,
+    duration,
     hasInfiniteAnimations,
     loopDuration,
+    exactLoopDuration,
+    loopStart,
+    warnings,
+    animations,
   };
 }
 
 /**
- * Parse animation timing attributes
+ * Find CSS animations that reference @keyframes defined in the SVG
  */
-function parseAnimationTiming(element: Element): {
-  endTime: number | null;
-  isInfinite: boolean;
-  baseDuration: number | null; // The duration of one loop iteration
-  isExplicitInfinite: boolean; // True if repeatCount="indefinite" is explicitly set
-} {
-  const durAttr = element.getAttribute('dur');
-  const beginAttr = element.getAttribute('begin') || '0s';
-  const repeatCountAttr = element.getAttribute('repeatCount');
-  const repeatDurAttr = element.getAttribute('repeatDur');
-
-  // Check for indefinite duration
-  if (durAttr === 'indefinite') {
-    return { endTime: null, isInfinite: true, baseDuration: null, isExplicitInfinite: false };
-  }
-
-  // Parse base duration
-  let baseDuration = 0;
-  if (durAttr) {
-    const parsedDur = parseTime(durAttr);
-    if (parsedDur !== null) {
-      baseDuration = parsedDur;
-    }
-  }
-
-  // Check for indefinite repeat - this is the key indicator of a loop animation
-  if (repeatCountAttr === 'indefinite') {
-    // This is an infinite loop with a known base duration
-    return { endTime: null, isInfinite: true, baseDuration, isExplicitInfinite: true };
-  }
-
-  if (repeatDurAttr === 'indefinite') {
-    return { endTime: null, isInfinite: true, baseDuration, isExplicitInfinite: true };
+function findCSSAnimations(
+  svgElement: Element
+): { animation: CSSAnimation; target: string }[] {
+  const styleElements = svgElement.getElementsByTagName('style');
+  let css = '';
+  for (let i = 0; i < styleElements.length; i++) {
+    css += (styleElements[i].textContent ?? '') + '\n';
   }
 
-  // Parse begin time
-  let beginTime = 0;
-  const parsedBegin = parseTime(beginAttr);
-  if (parsedBegin !== null) {
-    beginTime = parsedBegin;
-  }
+  const animations = parseRuleAnimations(css).map(({ selector, animation }) => {
+    return { animation, target: selector };
+  });
 
-  // Parse repeat count
-  let repeatCount = 1;
-  if (repeatCountAttr && repeatCountAttr !== 'indefinite') {
-    const parsed = parseFloat(repeatCountAttr);
-    if (!isNaN(parsed) && parsed > 0) {
-      repeatCount = parsed;
+  const elements = [svgElement, ...Array.from(svgElement.getElementsByTagName('*'))];
+  for (const element of elements) {
+    const style = element.getAttribute('style');
+    if (style) {
+      for (const animation of parseInlineAnimations(style)) {
+        animations.push({ animation, target: describeNode(element) });
+      }
     }
   }
 
-  // Parse repeat duration
-  let repeatDuration: number | null = null;
-  if (repeatDurAttr && repeatDurAttr !== 'indefinite') {
-    repeatDuration = parseTime(repeatDurAttr);
-  }
-
-  // Calculate total duration
-  let totalDuration: number;
-  if (repeatDuration !== null) {
-    totalDuration = repeatDuration;
-  } else {
-    totalDuration = baseDuration * repeatCount;
-  }
+  // Animations without matching @keyframes don't run
+  const keyframes = extractKeyframeNames(css);
+  return animations.filter(({ animation }) => keyframes.has(animation.name));
+}
 
-  // Check for extremely long durations (treat as infinite loop)
-  const MAX_REASONABLE_DURATION = 3600 * 1000; // 1 hour
-  if (totalDuration > MAX_REASONABLE_DURATION) {
-    // It's effectively infinite, but we know the base loop duration
-    return { endTime: null, isInfinite: true, baseDuration, isExplicitInfinite: false };
+/**
+ * Return element animated by SMIL element: href reference or parent
+ */
+function describeTarget(element: Element): string | null {
+  const href = element.getAttribute('href') || element.getAttribute('xlink:href');
+  if (href) {
+    return href;
   }
+  const parent = element.parentNode as Element | null;
+  return parent && parent.nodeType === 1 ? describeNode(parent) : null;
+}
 
-  const endTime = beginTime + totalDuration;
+function describeNode(element: Element): string {
+  const id = element.getAttribute('id');
+  return id ? `#${id}` : `<${element.tagName}>`;
+}
 
-  return { endTime, isInfinite: false, baseDuration, isExplicitInfinite: false };
+function formatMs(ms: number): string {
+  return `${Number((ms / 1000).toFixed(3))}s`;
 }
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { generateHTML } from './template-generator.js';
+import { chooseRenderMode, generateHTML, stripProlog } from './template-generator.js';
+import { analyzeSVGContent } from './svg-analyzer.js';
 
 describe('generateHTML', () => {
   it('embeds the given dimensions', async () => {
@@ -11,8 +12,20 @@ describe('generateHTML', () => {
 
     expect(html).toContain('width: 640px;');
     expect(html).toContain('height: 480px;');
-    expect(html).toContain('max-width: 640px;');
-    expect(html).toContain('max-height: 480px;');
+    expect(html).not.toContain('transform:');
+  });
+
+  it('places the animation in the fit box', async () => {
+    const html = await generateHTML({
+      svgPath: 'animation.svg',
+      width: 1080,
+      height: 1080,
+      box: { x: 0, y: 270, width: 2160, height: 540, scaleX: 0.5, scaleY: 1 },
+    });
+
+    expect(html).toContain('top: 270px;');
+    expect(html).toContain('width: 2160px;');
+    expect(html).toContain('transform: scale(0.5, 1);');
   });
 
   it('injects custom CSS into the style block', async () => {
@@ -40,6 +53,17 @@ describe('generateHTML', () => {
     expect(html).not.toContain('&gt;');
   });
 
+  it('sets the page background', async () => {
+    const html = await generateHTML({
+      svgPath: 'animation.svg',
+      width: 640,
+      height: 480,
+      background: 'linear-gradient(#fff, #000)',
+    });
+
+    expect(html).toContain('background: linear-gradient(#fff, #000);');
+  });
+
   it('omits custom CSS when none is provided', async () => {
     const html = await generateHTML({
       svgPath: 'animation.svg',
@@ -50,4 +74,59 @@ describe('generateHTML', () => {
     expect(html).toContain('<style>');
     expect(html).not.toContain('undefined');
   });
+
+  it('inlines the SVG markup with the base of its directory', async () => {
+    const html = await generateHTML({
+      svgPath: '/assets/animation.svg',
+      width: 640,
+      height: 480,
+      mode: 'inline',
+      svgContent: '<?xml version="1.0"?>\n<svg><script>start()</script></svg>',
+    });
+
+    expect(html).toContain('<base href="file:///assets/">');
+    expect(html).toContain('<div id="animation"><svg><script>start()</script></svg></div>');
+    expect(html).not.toContain('<?xml');
+    expect(html).not.toContain('<img');
+  });
+
+  it('embeds the SVG document with <object> and passes custom CSS to it', async () => {
+    const html = await generateHTML({
+      svgPath: '/assets/animation.svg',
+      width: 640,
+      height: 480,
+      mode: 'object',
+      style: 'circle { fill: red; } </style>',
+    });
+
+    expect(html).toContain('<object id="animation" type="image/svg+xml" data="file:///assets/animation.svg">');
+    expect(html).toContain('style.textContent = "circle { fill: red; } \\u003c/style>";');
+  });
+});
+
+describe('chooseRenderMode', () => {
+  const svg = (content: string) => analyzeSVGContent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10">${content}</svg>`
+  );
+
+  it('renders scripted SVGs and SVGs with external resources inline', () => {
+    expect(chooseRenderMode(svg('<rect/>'))).toBe('img');
+    expect(chooseRenderMode(svg('<script>run()</script>'))).toBe('inline');
+    expect(chooseRenderMode(svg('<image href="logo.png"/>'))).toBe('inline');
+  });
+
+  it('renders SVGs with links as images', () => {
+    expect(chooseRenderMode(svg('<a href="https://example.com"><rect/></a>'))).toBe('img');
+  });
+});
+
+describe('stripProlog', () => {
+  it('removes XML declaration and doctype', () => {
+    const svg = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "http://www.w3.org/Graphics/SVG/1.1/DTD/svg11.dtd">',
+      '<svg/>',
+    ].join('\n');
+    expect(stripProlog(svg)).toBe('<svg/>');
+  });
 });
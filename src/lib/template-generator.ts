@@ -1,6 +1,23 @@
-import { writeFile } from 'fs/promises';
+import { readFile, writeFile } from 'fs/promises';
 import Handlebars from 'handlebars';
-import { resolve } from 'path';
+import { dirname, resolve } from 'path';
+import { FitBox } from './fit.js';
+import { loadedResources, SVGAnalysis } from './svg-analyzer.js';
+
+/**
+ * How the SVG is embedded in the page:
+ * - `img` loads it as an image, scripts, external resources and events are disabled
+ * - `inline` puts the SVG markup into the page, the custom CSS applies to its elements
+ * - `object` loads it as a separate document with <object>
+ */
+export type RenderMode = 'img' | 'inline' | 'object';
+
+export const RENDER_MODES: RenderMode[] = ['img', 'inline', 'object'];
+
+/**
+ * Selector of the element that contains the animation
+ */
+export const ANIMATION_SELECTOR = '#animation';
 
 export interface TemplateData {
   svgPath: string;
@@ -8,6 +25,14 @@ export interface TemplateData {
   height: number;
   /** Extra CSS appended inside the <style> block */
   style?: string;
+  /** CSS background of the page (default: transparent) */
+  background?: string;
+  /** Render mode (default: img) */
+  mode?: RenderMode;
+  /** SVG source code of inline mode (default: read from svgPath) */
+  svgContent?: string;
+  /** Placement of the SVG in the page (default: the whole page) */
+  box?: FitBox;
 }
 
 // Embedded template
@@ -16,6 +41,9 @@ const TEMPLATE = `<!DOCTYPE html>
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  {{#if inline}}
+  <base href="file://{{baseDir}}/">
+  {{/if}}
   <style>
     body {
       margin: 0;
@@ -23,34 +51,117 @@ const TEMPLATE = `<!DOCTYPE html>
       width: {{width}}px;
       height: {{height}}px;
       overflow: hidden;
-      background: transparent;
+      background: {{{background}}};
+    }
+    #animation {
+      position: absolute;
+      left: {{box.x}}px;
+      top: {{box.y}}px;
+      width: {{box.width}}px;
+      height: {{box.height}}px;
+      display: block;
+      {{#if stretch}}
+      transform: scale({{box.scaleX}}, {{box.scaleY}});
+      transform-origin: 0 0;
+      {{/if}}
     }
-    img {
-      max-width: {{width}}px;
-      max-height: {{height}}px;
+    #animation > svg {
+      width: 100%;
+      height: 100%;
       display: block;
     }
     {{{style}}}
   </style>
 </head>
 <body>
-  <img src="file://{{svgPath}}" />
+  {{#if inline}}
+  <div id="animation">{{{svgContent}}}</div>
+  {{else if object}}
+  <object id="animation" type="image/svg+xml" data="file://{{svgPath}}"></object>
+  <script>
+    // Custom CSS also applies inside the SVG document
+    document.getElementById('animation').addEventListener('load', function () {
+      var doc = this.contentDocument;
+      if (doc && doc.documentElement) {
+        var style = doc.createElementNS('http://www.w3.org/2000/svg', 'style');
+        style.textContent = {{{json style}}};
+        doc.documentElement.appendChild(style);
+      }
+    });
+  </script>
+  {{else}}
+  <img id="animation" src="file://{{svgPath}}" />
+  {{/if}}
 </body>
 </html>`;
 
+const handlebars = Handlebars.create();
+
+// JSON literal that is safe inside <script>
+handlebars.registerHelper('json', (value: unknown) => {
+  return JSON.stringify(value ?? '').replace(/</g, '\\u003c');
+});
+
+/**
+ * Return render mode of the SVG: documents with scripts, event handlers or
+ * external resources (other than links) don't work as <img>, they are
+ * rendered inline
+ */
+export function chooseRenderMode(
+  analysis: Pick<SVGAnalysis, 'hasScripts' | 'resources'>
+): RenderMode {
+  const external = loadedResources(analysis.resources).length > 0;
+  return analysis.hasScripts || external ? 'inline' : 'img';
+}
+
+/**
+ * Remove XML declaration and doctype, so the SVG can be put into HTML
+ */
+export function stripProlog(svgContent: string): string {
+  return svgContent
+    .replace(/^\uFEFF/, '')
+    .replace(/<\?xml[\s\S]*?\?>/, '')
+    .replace(/<!DOCTYPE[^[>]*(\[[\s\S]*?\])?\s*>/i, '')
+    .trim();
+}
+
 /**
  * Generate HTML from template
  */
 export async function generateHTML(data: TemplateData): Promise<string> {
   // Compile template
-  const template = Handlebars.compile(TEMPLATE);
+  const template = handlebars.compile(TEMPLATE);
+  const mode = data.mode ?? 'img';
+  const svgPath = resolve(data.svgPath);
+  const box = data.box ?? {
+    x: 0,
+    y: 0,
+    width: data.width,
+    height: data.height,
+    scaleX: 1,
+    scaleY: 1,
+  };
+
+  let svgContent = '';
+  if (mode === 'inline') {
+    svgContent = stripProlog(data.svgContent ?? await readFile(svgPath, 'utf-8'));
+  }
 
-  // Generate HTML with absolute path for SVG
+  // Generate HTML with absolute path for SVG, relative references of inline
+  // SVG are resolved from its directory
   const htmlContent = template({
-    svgPath: resolve(data.svgPath),
+    svgPath,
+    baseDir: dirname(svgPath),
     width: data.width,
     height: data.height,
+    box,
+    stretch: box.scaleX !== 1 || box.scaleY !== 1,
     style: data.style ?? '',
+    // Background can't end the <style> element
+    background: (data.background ?? 'transparent').replace(/</g, '\\3c '),
+    inline: mode === 'inline',
+    object: mode === 'object',
+    svgContent,
   });
 
   return htmlContent;
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { parseSeconds, parseTime } from './utils.js';
+
+describe('parseTime', () => {
+  it('parses timecount values with metrics', () => {
+    expect(parseTime('1.5s')).toBe(1500);
+    expect(parseTime('250ms')).toBe(250);
+    expect(parseTime('2min')).toBe(120000);
+    expect(parseTime('0.5h')).toBe(1800000);
+  });
+
+  it('treats bare numbers as seconds', () => {
+    expect(parseTime('5')).toBe(5000);
+    expect(parseTime('.5')).toBe(500);
+  });
+
+  it('parses full and partial clock values', () => {
+    expect(parseTime('00:01:02.5')).toBe(62500);
+    expect(parseTime('02:30')).toBe(150000);
+    expect(parseTime('100:00:00')).toBe(360000000);
+  });
+
+  it('returns null for invalid values', () => {
+    expect(parseTime('')).toBeNull();
+    expect(parseTime('indefinite')).toBeNull();
+    expect(parseTime('01:75')).toBeNull();
+    expect(parseTime('1:30')).toBeNull();
+    expect(parseTime('-1s')).toBeNull();
+  });
+});
+
+describe('parseSeconds', () => {
+  it('parses options in seconds or clock values', () => {
+    expect(parseSeconds(5, 'Start')).toBe(5);
+    expect(parseSeconds('1:30', 'Start')).toBe(90);
+    expect(parseSeconds('00:05', 'Start')).toBe(5);
+    expect(parseSeconds(undefined, 'Start')).toBeUndefined();
+    expect(() => parseSeconds('soon', 'Length'))
+      .toThrow('Length must be a number of seconds or a clock value, got: soon');
+  });
+});
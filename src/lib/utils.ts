@@ -1,4 +1,4 @@
-import { access, unlink } from 'fs/promises';
+import { access, mkdtemp, rm, stat, unlink } from 'fs/promises';
 import { tmpdir } from 'os';
 import { join } from 'path';
 import { constants } from 'fs';
@@ -25,24 +25,78 @@ export async function fileExists(filePath: string): Promise<boolean> {
 }
 
 /**
- * Parse time string (e.g., "1s", "1000ms", "1.5s") to milliseconds
+ * Check if a path is an existing directory
+ */
+export async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse SMIL clock value to milliseconds. Supports full and partial clock
+ * values ("00:01:02.5", "01:30") and timecounts with an optional metric
+ * ("2h", "1.5min", "1s", "1000ms" or "5" for seconds)
  */
 export function parseTime(timeStr: string): number | null {
-  const match = timeStr.match(/^([\d.]+)(ms|s)$/i);
+  const value = timeStr.trim();
+
+  // Full clock value: hours:minutes:seconds
+  let match = value.match(/^(\d+):([0-5]\d):([0-5]\d(?:\.\d+)?)$/);
+  if (match) {
+    const [, hours, minutes, seconds] = match;
+    return (parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseFloat(seconds)) * 1000;
+  }
+
+  // Partial clock value: minutes:seconds
+  match = value.match(/^([0-5]\d):([0-5]\d(?:\.\d+)?)$/);
+  if (match) {
+    const [, minutes, seconds] = match;
+    return (parseInt(minutes, 10) * 60 + parseFloat(seconds)) * 1000;
+  }
+
+  // Timecount value
+  match = value.match(/^(\d+(?:\.\d*)?|\.\d+)(h|min|s|ms)?$/i);
   if (!match) return null;
 
-  const value = parseFloat(match[1]);
-  const unit = match[2].toLowerCase();
+  const num = parseFloat(match[1]);
+  const unit = (match[2] ?? 's').toLowerCase();
 
-  if (unit === 'ms') {
-    return value;
-  } else if (unit === 's') {
-    return value * 1000;
+  switch (unit) {
+    case 'h':
+      return num * 3600 * 1000;
+    case 'min':
+      return num * 60 * 1000;
+    case 's':
+      return num * 1000;
+    case 'ms':
+      return num;
   }
 
   return null;
 }
 
+/**
+ * Parse number of seconds or SMIL clock value of an option (e.g. "1:30" or
+ * "500ms"), minutes can have one digit unlike in SVG files. Returns
+ * undefined for undefined.
+ */
+export function parseSeconds(value: unknown, name: string): number | undefined {
+  if (value === undefined || typeof value === 'number') {
+    return value;
+  }
+  const ms = typeof value === 'string' ? parseTime(value.trim().replace(/^(\d):/, '0$1:')) : null;
+  if (ms === null) {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    throw new ValidationError(
+      `${name} must be a number of seconds or a clock value, got: ${text}`
+    );
+  }
+  return ms / 1000;
+}
+
 /**
  * Generate a temporary file path
  */
@@ -51,6 +105,13 @@ export function getTempFilePath(extension: string): string {
   return join(tmpdir(), `svg-video-${randomStr}.${extension}`);
 }
 
+/**
+ * Create a temporary directory
+ */
+export async function createTempDirectory(): Promise<string> {
+  return mkdtemp(join(tmpdir(), 'svg-video-'));
+}
+
 /**
  * Delete a file if it exists
  */
@@ -65,13 +126,20 @@ export async function deleteFile(filePath: string): Promise<void> {
   }
 }
 
+/**
+ * Delete a directory and its content if it exists
+ */
+export async function deleteDirectory(dirPath: string): Promise<void> {
+  await rm(dirPath, { recursive: true, force: true });
+}
+
 /**
  * Validate that a number is positive
  */
 export function validatePositiveNumber(value: any, name: string): number {
   const num = Number(value);
   if (isNaN(num) || num <= 0) {
-    throw new Error(`${name} must be a positive number`);
+    throw new ValidationError(`${name} must be a positive number`);
   }
   return num;
 }
@@ -99,3 +167,25 @@ export class SystemError extends Error {
     this.name = 'SystemError';
   }
 }
+
+/**
+ * Category of an error with the exit code of the CLI
+ */
+export interface ErrorCategory {
+  label: string;
+  exitCode: number;
+}
+
+/**
+ * Return category of the error thrown by the conversion
+ */
+export function errorCategory(error: unknown): ErrorCategory {
+  if (error instanceof ValidationError) {
+    return { label: 'Validation Error', exitCode: 1 };
+  } else if (error instanceof ProcessingError) {
+    return { label: 'Processing Error', exitCode: 2 };
+  } else if (error instanceof SystemError) {
+    return { label: 'System Error', exitCode: 3 };
+  }
+  return { label: 'Unexpected Error', exitCode: 99 };
+}
@@ -1,14 +1,32 @@
-import ffmpeg from 'fluent-ffmpeg';
-import { ProcessingError, SystemError } from './utils.js';
+import ffmpeg, { FfmpegCommand } from 'fluent-ffmpeg';
+import { appendFile } from 'fs/promises';
+import { devNull } from 'os';
+import { extname, join } from 'path';
+import { FIRST_FRAME } from './recorder.js';
+import { AudioTrack, audioFilters, audioInputOptions } from './audio.js';
+import {
+  EncoderOptions,
+  EncoderPass,
+  encoderArguments,
+  resolveEncoder,
+} from './encoder.js';
+import { Anchor, FitMode, fitFilters } from './fit.js';
+import {
+  createTempDirectory,
+  deleteDirectory,
+  ProcessingError,
+  SystemError,
+  ValidationError,
+} from './utils.js';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 
 const execAsync = promisify(exec);
 
 /**
- * Check if FFmpeg is installed
+ * Check if FFmpeg is installed and includes given encoders
  */
-export async function checkFFmpeg(): Promise<void> {
+export async function checkFFmpeg(encoders: string[] = []): Promise<void> {
   try {
     await execAsync('ffmpeg -version');
   } catch (error) {
@@ -17,48 +35,474 @@ export async function checkFFmpeg(): Promise<void> {
       'Visit https://ffmpeg.org/download.html for installation instructions.'
     );
   }
+
+  if (encoders.length === 0) {
+    return;
+  }
+  const available = await listEncoders();
+  const missing = encoders.filter((encoder) => !available.has(encoder));
+  if (missing.length > 0) {
+    throw new SystemError(
+      `FFmpeg is built without ${missing.join(', ')} encoder` +
+      `${missing.length > 1 ? 's' : ''}. Install FFmpeg with support for it ` +
+      'or choose another codec.'
+    );
+  }
+}
+
+/**
+ * Return names of the encoders of the installed ffmpeg
+ */
+export async function listEncoders(): Promise<Set<string>> {
+  const { stdout } = await execAsync('ffmpeg -hide_banner -encoders');
+  const encoders = new Set<string>();
+  // Lines look like " V....D libx264    libx264 H.264 / AVC ..."
+  for (const line of stdout.split('\n')) {
+    const match = line.match(/^\s[VAS][F.][S.][X.][B.][D.]\s+(\S+)/);
+    if (match && match[1] !== '=') {
+      encoders.add(match[1]);
+    }
+  }
+  return encoders;
 }
 
+/**
+ * Output container and encoder
+ */
+export type OutputFormat = 'mp4' | 'webm' | 'mov' | 'gif' | 'webp' | 'apng';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['mp4', 'webm', 'mov', 'gif', 'webp', 'apng'];
+
+/**
+ * Formats that can carry transparency (alpha channel)
+ */
+export const ALPHA_FORMATS: OutputFormat[] = ['webm', 'mov', 'gif', 'webp', 'apng'];
+
+/**
+ * Formats that can carry an audio track
+ */
+export const AUDIO_FORMATS: OutputFormat[] = ['mp4', 'webm', 'mov'];
+
+const AUDIO_CODECS: Partial<Record<OutputFormat, string>> = {
+  mp4: 'aac',
+  webm: 'libopus',
+  mov: 'pcm_s16le',
+};
+
+/**
+ * Dithering algorithms of the ffmpeg paletteuse filter (GIF output)
+ */
+export const DITHER_MODES = [
+  'bayer',
+  'heckbert',
+  'floyd_steinberg',
+  'sierra2',
+  'sierra2_4a',
+  'none',
+];
+
+const FORMAT_EXTENSIONS: Record<string, OutputFormat> = {
+  '.mp4': 'mp4',
+  '.webm': 'webm',
+  '.mov': 'mov',
+  '.gif': 'gif',
+  '.webp': 'webp',
+  '.apng': 'apng',
+};
+
 export interface ProcessorOptions {
   width: number;
   height: number;
+  /** Frame rate of an image sequence input (e.g. frame_%05d.png) */
+  inputFps?: number;
+  /** Input is rendered scale times larger and downscaled with lanczos filter */
+  scale?: number;
+  /** Output format (default: mp4) */
+  format?: OutputFormat;
+  /** Play animated image formats (GIF, WebP, APNG) in an infinite loop */
+  loop?: boolean;
+  /** Dithering algorithm used for the GIF palette (default: sierra2_4a) */
+  dither?: string;
+  /** Keep transparency of the input (requires PNG frames and one of ALPHA_FORMATS) */
+  alpha?: boolean;
+  /** ffmpeg color of the padding around the input (default: black) */
+  padColor?: string;
+  /** How the input fills the output size (default: contain) */
+  fit?: FitMode;
+  /** Position of the input in the output (default: center) */
+  anchor?: Anchor;
+  /** Number of times the input is played (default: 1) */
+  loops?: number;
+  /** Length of the output in milliseconds, longer input is trimmed */
+  duration?: number;
+  /** Soundtrack muxed into the video (requires one of AUDIO_FORMATS and duration) */
+  audio?: AudioTrack;
+  /** Video encoder of MP4, WebM and MOV output (default: H.264, VP9 and ProRes) */
+  encoder?: EncoderOptions;
+  /** Stops ffmpeg */
+  signal?: AbortSignal;
+  /** File where the ffmpeg commands and their output are appended */
+  logPath?: string;
+  /**
+   * Directory of the intermediate files (GIF palette, two-pass statistics),
+   * kept when set; a temporary directory is created and deleted if not
+   */
+  tempDirectory?: string;
+}
+
+/**
+ * Return output format matching the extension of the file, null if unknown
+ */
+export function formatFromPath(filePath: string): OutputFormat | null {
+  return FORMAT_EXTENSIONS[extname(filePath).toLowerCase()] ?? null;
+}
+
+/**
+ * Throw ValidationError if the format can't carry alpha channel
+ */
+export function checkAlphaSupport(format: OutputFormat): void {
+  if (!ALPHA_FORMATS.includes(format)) {
+    throw new ValidationError(
+      `Transparent output is not supported by ${format.toUpperCase()} ` +
+      `(use one of ${ALPHA_FORMATS.join(', ')})`
+    );
+  }
+}
+
+/**
+ * Throw ValidationError if the format can't carry audio track
+ */
+export function checkAudioSupport(format: OutputFormat): void {
+  if (!AUDIO_FORMATS.includes(format)) {
+    throw new ValidationError(
+      `Audio is not supported by ${format.toUpperCase()} ` +
+      `(use one of ${AUDIO_FORMATS.join(', ')})`
+    );
+  }
 }
 
 /**
- * Process video: convert WebM to MP4 and crop to exact dimensions
+ * Process video: convert WebM (or a sequence of PNG frames) to the output
+ * format and crop to exact dimensions
  */
 export async function processVideo(
   inputPath: string,
   outputPath: string,
-  options: ProcessorOptions
+  options: ProcessorOptions,
+  onProgress?: (progress: number) => void
 ): Promise<void> {
-  return new Promise((resolve, reject) => {
-    ffmpeg(inputPath)
-      .outputOptions([
-        '-c:v libx264',        // H.264 codec
-        '-preset medium',       // Encoding speed/quality balance
-        '-crf 23',             // Quality (lower = better, 18-28 is good range)
-        '-pix_fmt yuv420p',    // Pixel format for compatibility
-        '-movflags +faststart', // Enable fast start for web playback
-      ])
-      .videoFilters([
-        `scale=${options.width}:${options.height}:force_original_aspect_ratio=decrease`,
-        `pad=${options.width}:${options.height}:(ow-iw)/2:(oh-ih)/2`,
+  const format = options.format ?? 'mp4';
+  if (options.alpha) {
+    checkAlphaSupport(format);
+  }
+  if (options.audio) {
+    checkAudioSupport(format);
+  }
+
+  const filters = sizeFilters(options);
+
+  if (format === 'gif') {
+    await processGIF(inputPath, outputPath, filters, options, onProgress);
+    return;
+  }
+
+  const encoder = resolveEncoder(format, options.encoder, undefined, options.alpha);
+  if (encoder.twoPass) {
+    await processTwoPass(inputPath, outputPath, filters, format, encoder, options, onProgress);
+    return;
+  }
+
+  const command = createCommand(inputPath, options)
+    .outputOptions(outputOptions(format, encoder, options))
+    .videoFilters(filters)
+    .output(outputPath);
+
+  if (options.audio) {
+    addAudio(command, format, options.audio, options.duration);
+  }
+
+  await runCommand(command, options, onProgress);
+}
+
+/**
+ * Downscale PNG frames of supersampled rendering to the output size
+ */
+export async function resizeFrames(
+  inputPattern: string,
+  outputPattern: string,
+  options: ProcessorOptions,
+  onProgress?: (progress: number) => void
+): Promise<void> {
+  const command = createCommand(inputPattern, { ...options, inputFps: options.inputFps ?? 30 })
+    .videoFilters(sizeFilters(options))
+    .outputOptions([`-start_number ${FIRST_FRAME}`, '-f image2'])
+    .output(outputPattern);
+
+  await runCommand(command, options, onProgress);
+}
+
+/**
+ * Blend the last `crossfade` milliseconds of a recorded loop into its
+ * beginning, so the loop can be repeated without a visible jump. The
+ * output is a PNG sequence, crossfade shorter than the input.
+ */
+export async function crossfadeLoop(
+  inputPath: string,
+  outputPattern: string,
+  loop: { duration: number; crossfade: number; fps: number },
+  options: Pick<ProcessorOptions, 'inputFps' | 'alpha' | 'signal' | 'logPath'>,
+  onProgress?: (progress: number) => void
+): Promise<void> {
+  const fade = loop.crossfade / 1000;
+  const offset = (loop.duration - 2 * loop.crossfade) / 1000;
+  if (offset < 0) {
+    throw new ValidationError('Crossfade can\'t be longer than half of the loop');
+  }
+  const command = createCommand(inputPath, { inputFps: options.inputFps })
+    .complexFilter([
+      // xfade needs constant frame rate, realtime recordings have variable one
+      `[0:v]fps=${loop.fps},format=${options.alpha ? 'rgba' : 'rgb24'},split[a][b]`,
+      `[a]trim=start=${fade},setpts=PTS-STARTPTS[body]`,
+      `[b]trim=end=${fade},setpts=PTS-STARTPTS[head]`,
+      `[body][head]xfade=transition=fade:duration=${fade}:offset=${offset}`,
+    ])
+    .outputOptions([`-start_number ${FIRST_FRAME}`, '-f image2'])
+    .output(outputPattern);
+
+  await runCommand(command, options, onProgress);
+}
+
+/**
+ * Filters that fit the input into the output size
+ */
+function sizeFilters(options: ProcessorOptions): string[] {
+  return fitFilters(options.width, options.height, options.fit, options.anchor, {
+    scale: options.scale,
+    // Padding of transparent output is transparent too
+    padColor: options.alpha ? 'black@0' : options.padColor,
+  });
+}
+
+/**
+ * Encode video twice, the first pass collects statistics used by
+ * the second pass to distribute the bitrate
+ */
+async function processTwoPass(
+  inputPath: string,
+  outputPath: string,
+  filters: string[],
+  format: OutputFormat,
+  encoder: EncoderOptions,
+  options: ProcessorOptions,
+  onProgress?: (progress: number) => void
+): Promise<void> {
+  const directory = options.tempDirectory ?? await createTempDirectory();
+  const logFile = join(directory, 'pass');
+  const pass = (number: EncoderPass['number']) => ({ number, logFile });
+
+  try {
+    // Statistics only, the output of the first pass is discarded
+    const first = createCommand(inputPath, options)
+      .outputOptions([...outputOptions(format, encoder, options, pass(1)), '-an', '-f null'])
+      .videoFilters(filters)
+      .output(devNull);
+
+    await runCommand(first, options, (percent) => onProgress?.(Math.round(percent / 2)));
+
+    const second = createCommand(inputPath, options)
+      .outputOptions(outputOptions(format, encoder, options, pass(2)))
+      .videoFilters(filters)
+      .output(outputPath);
+
+    if (options.audio) {
+      addAudio(second, format, options.audio, options.duration);
+    }
+
+    await runCommand(second, options, (percent) => {
+      onProgress?.(50 + Math.round(percent / 2));
+    });
+  } finally {
+    if (!options.tempDirectory) {
+      await deleteDirectory(directory);
+    }
+  }
+}
+
+/**
+ * Encode GIF in two passes: generate optimal palette for the whole
+ * animation and then map every frame to that palette
+ */
+async function processGIF(
+  inputPath: string,
+  outputPath: string,
+  filters: string[],
+  options: ProcessorOptions,
+  onProgress?: (progress: number) => void
+): Promise<void> {
+  const directory = options.tempDirectory ?? await createTempDirectory();
+  const palettePath = join(directory, 'palette.png');
+  const dither = options.dither ?? 'sierra2_4a';
+
+  try {
+    // One palette entry is reserved for transparent pixels
+    const reserve = options.alpha ? ':reserve_transparent=1' : ':reserve_transparent=0';
+    const palette = createCommand(inputPath, options)
+      .videoFilters([...filters, `palettegen=stats_mode=full${reserve}`])
+      .outputOptions(['-frames:v 1', '-update 1'])
+      .output(palettePath);
+
+    await runCommand(palette, options);
+
+    const gif = createCommand(inputPath, options)
+      .input(palettePath)
+      .complexFilter([
+        `[0:v]${filters.join(',')}[frames]`,
+        `[frames][1:v]paletteuse=dither=${dither}${options.alpha ? ':alpha_threshold=128' : ''}`,
       ])
-      .output(outputPath)
-      .on('start', (commandLine) => {
-        // Message is printed from main CLI
+      .outputOptions(outputOptions('gif', {}, options))
+      .output(outputPath);
+
+    await runCommand(gif, options, onProgress);
+  } finally {
+    if (!options.tempDirectory) {
+      await deleteDirectory(directory);
+    }
+  }
+}
+
+/**
+ * Encoder and container options of the output format
+ */
+function outputOptions(
+  format: OutputFormat,
+  encoder: EncoderOptions,
+  options: ProcessorOptions,
+  pass?: EncoderPass
+): string[] {
+  switch (format) {
+    case 'gif':
+      return [
+        `-loop ${options.loop ? 0 : -1}`, // 0 = infinite, -1 = play once
+      ];
+    case 'webp':
+      return [
+        '-c:v libwebp',
+        '-lossless 0',
+        '-quality 80',
+        `-pix_fmt ${options.alpha ? 'yuva420p' : 'yuv420p'}`,
+        `-loop ${options.loop ? 0 : 1}`, // number of plays, 0 = infinite
+      ];
+    case 'apng':
+      return [
+        '-c:v apng',
+        '-f apng',
+        `-pix_fmt ${options.alpha ? 'rgba' : 'rgb24'}`,
+        `-plays ${options.loop ? 0 : 1}`, // number of plays, 0 = infinite
+      ];
+    case 'webm':
+    case 'mov':
+    case 'mp4':
+      return encoderArguments(format, encoder, options.alpha, pass);
+  }
+}
+
+function createCommand(
+  inputPath: string,
+  options: Pick<ProcessorOptions, 'inputFps' | 'loops' | 'duration'>
+): FfmpegCommand {
+  const command = ffmpeg(inputPath);
+  if (options.inputFps) {
+    command.inputOptions([
+      `-framerate ${options.inputFps}`,
+      `-start_number ${FIRST_FRAME}`,
+    ]);
+  }
+  if (options.loops && options.loops > 1) {
+    command.inputOptions(`-stream_loop ${options.loops - 1}`);
+  }
+  if (options.duration) {
+    command.outputOptions(`-t ${options.duration / 1000}`);
+  }
+  return command;
+}
+
+/**
+ * Mux audio file into the video, trimmed or looped to the length of the video
+ */
+function addAudio(
+  command: FfmpegCommand,
+  format: OutputFormat,
+  audio: AudioTrack,
+  duration?: number
+): void {
+  if (!duration) {
+    throw new ProcessingError('Length of the video is required to add audio');
+  }
+  command
+    .input(audio.path)
+    .inputOptions(audioInputOptions(audio, duration))
+    .outputOptions([
+      '-map 0:v',
+      '-map 1:a',
+      `-c:a ${AUDIO_CODECS[format]}`,
+    ]);
+  const filters = audioFilters(audio, duration);
+  if (filters.length > 0) {
+    command.audioFilters(filters);
+  }
+}
+
+/**
+ * Run ffmpeg command, reporting progress in percent
+ */
+function runCommand(
+  command: FfmpegCommand,
+  options: Pick<ProcessorOptions, 'signal' | 'logPath'>,
+  onProgress?: (progress: number) => void
+): Promise<void> {
+  const { signal, logPath } = options;
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const abort = () => command.kill('SIGKILL');
+    signal?.addEventListener('abort', abort, { once: true });
+
+    // Command line and output of ffmpeg are written when it ends
+    const log: string[] = [];
+    const writeLog = async () => {
+      if (logPath) {
+        await appendFile(logPath, `${log.join('\n')}\n\n`, 'utf-8').catch(() => {
+          // Log is only for debugging
+        });
+      }
+    };
+
+    command
+      .on('start', (commandLine: string) => {
+        log.push(`$ ${commandLine}`);
+      })
+      .on('stderr', (line: string) => {
+        log.push(line);
       })
       .on('progress', (progress) => {
-        if (progress.percent) {
-          process.stdout.write(`\rConversion progress: ${Math.round(progress.percent)}%`);
+        if (onProgress && progress.percent) {
+          onProgress(Math.min(100, Math.round(progress.percent)));
         }
       })
-      .on('end', () => {
-        console.log('\nConversion complete!');
+      .on('end', async () => {
+        signal?.removeEventListener('abort', abort);
+        await writeLog();
         resolve();
       })
-      .on('error', (error) => {
+      .on('error', async (error) => {
+        signal?.removeEventListener('abort', abort);
+        await writeLog();
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
         reject(
           new ProcessingError(
             `Failed to process video: ${error.message}`
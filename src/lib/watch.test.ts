@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { diffAnalysis } from './watch.js';
+import { analyzeSVGContent } from './svg-analyzer.js';
+
+describe('diffAnalysis', () => {
+  const analyze = (width: number, animation: string) => analyzeSVGContent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="100">` +
+    `<rect><animate attributeName="x" to="10" ${animation}/></rect></svg>`
+  );
+
+  it('lists changed dimensions, duration and loop', () => {
+    const previous = analyze(100, 'dur="3s"');
+    const next = analyze(200, 'dur="2s" repeatCount="indefinite"');
+
+    expect(diffAnalysis(previous, next)).toEqual([
+      'Dimensions: 100x100 -> 200x100',
+      'Duration: 3s -> infinite',
+      'Loop: none -> 2s',
+    ]);
+  });
+
+  it('is empty when nothing changed', () => {
+    expect(diffAnalysis(analyze(100, 'dur="3s"'), analyze(100, 'dur="3s"'))).toEqual([]);
+  });
+});
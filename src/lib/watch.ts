@@ -0,0 +1,195 @@
+import { FSWatcher, watch } from 'fs';
+import { readFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { Browser } from 'puppeteer';
+import { convert, ConvertOptions, ConvertResult } from './converter.js';
+import { launchBrowser } from './recorder.js';
+import { analyzeSVG, localReferences, SVGAnalysis } from './svg-analyzer.js';
+import { fileExists, ProcessingError, ValidationError } from './utils.js';
+
+export interface WatchOptions {
+  /** Options of every conversion, the SVG is read from input */
+  convert: Omit<ConvertOptions, 'svg' | 'style' | 'browser' | 'signal'> & { input: string };
+  /** Path to a CSS file with extra styles, read again on every change */
+  stylePath?: string;
+  /** Time in milliseconds to wait for more changes before rendering (default: 200) */
+  debounce?: number;
+  /** Stops watching */
+  signal?: AbortSignal;
+  onChange?: (files: string[]) => void;
+  onDiff?: (changes: string[]) => void;
+  onResult?: (result: ConvertResult) => void;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Convert the SVG and convert it again when the SVG, the style file or a
+ * local file referenced by the SVG changes. A change during rendering
+ * cancels it. Resolves when the signal is aborted.
+ */
+export async function watchConversion(options: WatchOptions): Promise<void> {
+  const inputPath = resolve(options.convert.input);
+  if (!(await fileExists(inputPath))) {
+    throw new ValidationError(`Input file not found: ${inputPath}`);
+  }
+  const stylePath = options.stylePath ? resolve(options.stylePath) : undefined;
+  const debounce = options.debounce ?? 200;
+
+  let browser: Browser;
+  const launch = () => launchBrowser({ handleSignals: !options.signal });
+  try {
+    browser = await launch();
+  } catch (error: any) {
+    throw new ProcessingError(`Failed to launch browser: ${error.message}`);
+  }
+
+  // Directories are watched, editors often save by replacing the file
+  const watchers = new Map<string, FSWatcher>();
+  let files = new Set<string>();
+  const watchFiles = (paths: string[]) => {
+    files = new Set(paths);
+    const directories = new Set(paths.map((path) => dirname(path)));
+    for (const [directory, watcher] of watchers) {
+      if (!directories.has(directory)) {
+        watcher.close();
+        watchers.delete(directory);
+      }
+    }
+    for (const directory of directories) {
+      if (watchers.has(directory)) {
+        continue;
+      }
+      try {
+        watchers.set(directory, watch(directory, (_, filename) => {
+          const path = filename ? join(directory, filename.toString()) : null;
+          if (path && files.has(path)) {
+            schedule(path);
+          }
+        }));
+      } catch {
+        // Directory of a missing asset, reported by the render
+      }
+    }
+  };
+
+  let previous: SVGAnalysis | null = null;
+  const run = async (controller: AbortController, changed: string[]) => {
+    if (controller.signal.aborted) {
+      return;
+    }
+    if (changed.length > 0) {
+      options.onChange?.(changed);
+    }
+    try {
+      if (stylePath && !(await fileExists(stylePath))) {
+        throw new ValidationError(`Style file not found: ${stylePath}`);
+      }
+      const style = stylePath ? await readFile(stylePath, 'utf-8') : undefined;
+      const analysis = await analyzeSVG(inputPath);
+      watchFiles([
+        inputPath,
+        ...(stylePath ? [stylePath] : []),
+        ...localReferences(inputPath, analysis.externalReferences),
+      ]);
+      if (previous) {
+        options.onDiff?.(diffAnalysis(previous, analysis));
+      }
+      previous = analysis;
+
+      if (!browser.isConnected()) {
+        browser = await launch();
+      }
+      const result = await convert({
+        ...options.convert,
+        input: inputPath,
+        style,
+        browser,
+        signal: controller.signal,
+      });
+      options.onResult?.(result);
+    } catch (error) {
+      // Cancelled by a newer change
+      if (!controller.signal.aborted) {
+        options.onError?.(error);
+      }
+    }
+  };
+
+  // Renders run one after another, a new change aborts the current one
+  let current = null as { controller: AbortController; done: Promise<void> } | null;
+  let pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  const start = () => {
+    const changed = [...pending];
+    pending = new Set();
+    current?.controller.abort();
+    const controller = new AbortController();
+    const done = (current?.done ?? Promise.resolve()).then(() => run(controller, changed));
+    current = { controller, done };
+  };
+  const schedule = (path: string) => {
+    pending.add(path);
+    clearTimeout(timer);
+    timer = setTimeout(start, debounce);
+  };
+
+  watchFiles([inputPath, ...(stylePath ? [stylePath] : [])]);
+  start();
+
+  try {
+    await new Promise<void>((resolve) => {
+      if (options.signal?.aborted) {
+        resolve();
+      }
+      options.signal?.addEventListener('abort', () => resolve(), { once: true });
+    });
+  } finally {
+    clearTimeout(timer);
+    for (const watcher of watchers.values()) {
+      watcher.close();
+    }
+    current?.controller.abort();
+    await current?.done;
+    try {
+      await browser.close();
+    } catch {
+      // Ignore errors during cleanup
+    }
+  }
+}
+
+/**
+ * Describe changes of dimensions, duration and loop between two analyses
+ * of the SVG, e.g. "Duration: 3s -> 4.5s"
+ */
+export function diffAnalysis(previous: SVGAnalysis, next: SVGAnalysis): string[] {
+  const changes: string[] = [];
+  const compare = (name: string, before: string, after: string) => {
+    if (before !== after) {
+      changes.push(`${name}: ${before} -> ${after}`);
+    }
+  };
+  const dimensions = ({ width, height }: SVGAnalysis['dimensions']) => `${width}x${height}`;
+  const loop = (analysis: SVGAnalysis) => {
+    if (analysis.loopDuration === null) {
+      return 'none';
+    }
+    const start = analysis.loopStart > 0 ? ` from ${seconds(analysis.loopStart)}` : '';
+    return `${seconds(analysis.loopDuration)}${start}`;
+  };
+  const duration = (analysis: SVGAnalysis) => {
+    if (analysis.duration !== null) {
+      return seconds(analysis.duration);
+    }
+    return analysis.hasInfiniteAnimations ? 'infinite' : 'unknown';
+  };
+
+  compare('Dimensions', dimensions(previous.dimensions), dimensions(next.dimensions));
+  compare('Duration', duration(previous), duration(next));
+  compare('Loop', loop(previous), loop(next));
+  return changes;
+}
+
+function seconds(ms: number): string {
+  return `${Number((ms / 1000).toFixed(3))}s`;
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { createWorkspace } from './workspace.js';
+import { fileExists } from './utils.js';
+
+describe('createWorkspace', () => {
+  it('deletes the directory with its files', async () => {
+    const workspace = await createWorkspace();
+    const frames = await workspace.createDirectory('frames');
+    await writeFile(workspace.path('page.html'), '<html></html>');
+    await writeFile(join(frames, 'frame_00001.png'), '');
+
+    expect(dirname(workspace.directory)).toBe(tmpdir());
+    expect(await fileExists(workspace.path('page.html'))).toBe(true);
+
+    await workspace.cleanup();
+    expect(await fileExists(workspace.directory)).toBe(false);
+  });
+
+  it('keeps the directory for debugging', async () => {
+    const workspace = await createWorkspace({ keep: true });
+    await writeFile(workspace.path('ffmpeg.log'), '');
+
+    await workspace.cleanup();
+    expect(await fileExists(workspace.path('ffmpeg.log'))).toBe(true);
+
+    await rm(workspace.directory, { recursive: true, force: true });
+  });
+});
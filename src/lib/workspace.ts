@@ -0,0 +1,67 @@
+import { rmSync } from 'fs';
+import { mkdir, mkdtemp } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { deleteDirectory } from './utils.js';
+
+/**
+ * Temporary directory of one conversion, deleted by cleanup() unless it's
+ * kept for debugging
+ */
+export interface Workspace {
+  directory: string;
+  keep: boolean;
+  /** Return path of a file in the workspace */
+  path(name: string): string;
+  /** Create directory in the workspace */
+  createDirectory(name: string): Promise<string>;
+  cleanup(): Promise<void>;
+}
+
+// Workspaces that are not cleaned up yet, deleted when the process exits
+const active = new Set<string>();
+let exitHandler = false;
+
+/**
+ * Create workspace in the system temp directory
+ */
+export async function createWorkspace(options: { keep?: boolean } = {}): Promise<Workspace> {
+  const directory = await mkdtemp(join(tmpdir(), 'svg-video-'));
+  const keep = options.keep ?? false;
+  if (!keep) {
+    active.add(directory);
+    if (!exitHandler) {
+      // process.exit() skips finally blocks of running conversions
+      process.on('exit', removeActive);
+      exitHandler = true;
+    }
+  }
+
+  return {
+    directory,
+    keep,
+    path: (name) => join(directory, name),
+    async createDirectory(name) {
+      const path = join(directory, name);
+      await mkdir(path, { recursive: true });
+      return path;
+    },
+    async cleanup() {
+      if (!keep) {
+        await deleteDirectory(directory);
+        active.delete(directory);
+      }
+    },
+  };
+}
+
+function removeActive(): void {
+  for (const directory of active) {
+    try {
+      rmSync(directory, { recursive: true, force: true });
+    } catch {
+      // Ignore errors during cleanup
+    }
+  }
+  active.clear();
+}
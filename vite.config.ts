@@ -5,9 +5,14 @@ import { readFileSync } from 'fs';
 export default defineConfig({
   build: {
     lib: {
-      entry: resolve(__dirname, 'src/index.ts'),
+      entry: {
+        // CLI
+        index: resolve(__dirname, 'src/index.ts'),
+        // Node.js API
+        api: resolve(__dirname, 'src/api.ts'),
+      },
       formats: ['es'],
-      fileName: () => 'index.js',
+      fileName: (format, name) => `${name}.js`,
     },
     outDir: 'bin',
     rollupOptions: {
@@ -19,6 +24,7 @@ export default defineConfig({
         'fluent-ffmpeg',
         'handlebars',
         '@xmldom/xmldom',
+        'yaml',
         'fs',
         'fs/promises',
         'path',
@@ -26,9 +32,13 @@ export default defineConfig({
         'url',
         'util',
         'child_process',
+        'crypto',
+        'http',
+        'net',
       ],
       output: {
-        banner: '#!/usr/bin/env node',
+        // Only the CLI is executable
+        banner: (chunk) => (chunk.name === 'index' ? '#!/usr/bin/env node' : ''),
       },
     },
     target: 'node22',